@@ -25,155 +25,183 @@ if (fs.existsSync(userConfigPath)) {
 
 process.env["ALLOW_CONFIG_MUTATIONS"] = "true";
 
-import puppeteer from 'puppeteer';
-import puppeteerExtra from 'puppeteer-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import config from 'config';
 import { Command } from 'commander';
-import { executeCommand } from './util/utilities';
 import { Logger } from './util/logger';
 import { Requests } from './util/requests';
+import { LLM } from './util/llm';
+import { getProviderSettings } from './util/providers';
+import { launchBrowser, preparePage } from './util/browser';
+import { discoverScripts, printSummary, runScriptInPage, runScripts } from './util/runner';
+import { ScriptResult, writeReports } from './util/report';
+import { Variables } from './util/variables';
+import { Artifacts } from './util/artifacts';
+import { getSpeedProfile } from './util/stability';
 
-// Get viewport settings from config
-const viewport = config.get<{ width: number; height: number }>('viewport');
+// Get behavior settings from config
 const behavior = config.get<{ headless: boolean; useChrome: boolean; keepAlive: boolean }>('behavior');
-const claude = config.get<{ apiKey: string }>('claude');
+const llm = config.get<{ provider: string }>('llm');
+const report = config.get<{ enabled: boolean; dir: string; formats: string[] }>('report');
+const lockfile = config.get<{ mode: string }>('lockfile');
+const outline = config.get<{ enabled: boolean }>('outline');
+const refine = config.get<{ enabled: boolean }>('refine');
+const visual = config.get<{ updateBaselines: boolean }>('visual');
+const artifacts = config.get<{ enabled: boolean }>('artifacts');
+const stability = config.get<{ speed: string }>('stability');
 
-// Add this after the imports
-puppeteerExtra.use(StealthPlugin());
+/**
+ * Applies the command line options shared by every command to the config
+ * @param options Command line options
+ */
+const applyOptions = (options: any): void => {
+  // Check for LLM provider in command line options
+  if (options.provider) {
+    llm.provider = options.provider;
+  }
+  const providerSettings = getProviderSettings(llm.provider);
+  const providerConfig = config.get<{ apiKey?: string }>(providerSettings.section);
 
-const launchBrowser = async () => {
-  try {
-    // Set up command line options
-    const program = new Command();
-    program
-      .option('-s, --script <path>', 'Path to script file')
-      .option('-h, --headless', 'Run in headless mode')
-      .option('-c, --chrome', 'Use system installed Chrome')
-      .option('-k, --key <key>', 'Override default API key')
-      .option('-a, --alive', 'Keep the browser alive after script execution')
-      .option('-n, --nosandbox', 'Launch Chrome without sandbox')
-      .parse(process.argv);
-
-    const options = program.opts();
+  // Check for API key in command line options
+  if (options.key) {
+    providerConfig.apiKey = options.key;
+  }
 
-    // Check if script file is provided
-    if (!options.script) {
-      Logger.error('Error: Script file path is required. Use -s or --script option.');
-      process.exit(1);
-    }
+  // Check for API key in environment variables
+  if (providerSettings.apiKeyEnv && process.env[providerSettings.apiKeyEnv]) {
+    providerConfig.apiKey = process.env[providerSettings.apiKeyEnv];
+  }
 
-    // Read the script file
-    const script = fs.readFileSync(options.script, 'utf8');
-    const scriptLines = script.split('\n');
+  // Check for lockfile mode in command line options
+  if (options.record && options.replay) {
+    throw new Error('The --record and --replay options are mutually exclusive');
+  }
+  if (options.record) {
+    lockfile.mode = 'record';
+  } else if (options.replay) {
+    lockfile.mode = 'replay';
+  }
 
-    // Check for Claude API key in command line options
-    if (options.key) {
-      claude.apiKey = options.key;
-    }
+  // Check for disabled artifacts in command line options
+  if (options.artifacts === false) {
+    artifacts.enabled = false;
+  }
 
-    // Check for Claude API key in environment variables
-    if (process.env.ANTHROPIC_API_KEY) {
-      claude.apiKey = process.env.ANTHROPIC_API_KEY;
-    }
+  // Check for baseline updates in command line options
+  if (options.updateBaselines) {
+    visual.updateBaselines = true;
+  }
 
-    // Check for keepAlive in command line options
-    if (options.alive) {
-      behavior.keepAlive = true;
-    }
+  // Check for the location refinement in command line options
+  if (options.refine) {
+    refine.enabled = true;
+  }
 
-    // log the last 4 characters of the api key
-    if (claude.apiKey && claude.apiKey.length >= 4 && claude.apiKey !== 'your-api-key-here') {
-      Logger.log(`Claude API key: ****${claude.apiKey.slice(-4)}`);
-    } else {
-      throw new Error('Claude API key is not set or invalid');
+  // Check for the page outline in command line options
+  if (options.outline) {
+    outline.enabled = true;
+  }
+
+  // Check for the speed profile in command line options
+  if (options.speed) {
+    if (!['demo', 'ci'].includes(options.speed)) {
+      throw new Error(`Unknown speed profile ${options.speed}, use demo or ci`);
     }
+    stability.speed = options.speed;
+  }
+
+  // Check for keepAlive in command line options
+  if (options.alive) {
+    behavior.keepAlive = true;
+  }
 
-    // Launch Chrome instead of Chromium
-    const launchOptions: any = {
-      headless: options.headless || behavior.headless,
-      args: [
-        '--start-maximized',
-        '--force-device-scale-factor=1',
-      ], // Optional: starts Chrome maximized
-      defaultViewport: {
-        width: viewport.width,
-        height: viewport.height,
-        deviceScaleFactor: 1  // This disables retina/high-DPI scaling
+  // log the last 4 characters of the api key
+  Logger.log(`LLM provider: ${llm.provider}`);
+  if (providerConfig.apiKey && providerConfig.apiKey.length >= 4 && providerConfig.apiKey !== 'your-api-key-here') {
+    Logger.log(`API key: ****${providerConfig.apiKey.slice(-4)}`);
+  } else if (providerSettings.requiresApiKey) {
+    throw new Error(`API key for the ${llm.provider} provider is not set or invalid`);
+  }
+};
+
+/**
+ * Loads the variables file given on the command line, if any
+ * @param options Command line options
+ * @returns {Variables} Variables and secrets available to the scripts
+ */
+const loadVariables = (options: any): Variables => {
+  if (!options.vars) {
+    return new Variables();
+  }
+
+  Logger.log(`Loaded variables from ${options.vars}`);
+  return Variables.fromFile(options.vars);
+};
+
+/**
+ * Writes the run reports if enabled in the config or on the command line
+ * @param results Outcome of each script
+ * @param options Command line options
+ */
+const writeRunReports = async (results: ScriptResult[], options: any): Promise<void> => {
+  if (!report.enabled && !options.report) {
+    return;
+  }
+
+  const dir = typeof options.report === 'string' ? options.report : report.dir;
+  const written = await writeReports(results, dir, report.formats);
+  Logger.log(`Reports written: ${written.join(', ')}`);
+};
+
+/**
+ * Runs a single script file in the default browser context
+ * @param options Command line options
+ */
+const runSingleScript = async (options: any) => {
+  try {
+    // Clear the LLM cache, only exit if there is nothing else to do
+    if (options.clearCache) {
+      LLM.clearCache();
+      if (!options.script) {
+        process.exit(0);
       }
     }
 
-    if (options.nosandbox) {
-      launchOptions.args.push('--no-sandbox');
-      launchOptions.args.push('--disable-setuid-sandbox');
+    // Check if script file is provided
+    if (!options.script) {
+      Logger.error('Error: Script file path is required. Use -s or --script option.');
+      process.exit(1);
     }
 
-    if (options.chrome || behavior.useChrome) {
-      // Set Chrome path based on platform
-      switch (process.platform) {
-        case 'win32':
-          launchOptions.executablePath = 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe';
-          break;
-        case 'darwin':
-          launchOptions.executablePath = '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome';
-          break;
-        case 'linux':
-          launchOptions.executablePath = '/usr/bin/google-chrome';
-          break;
-        default:
-          Logger.error('Unsupported platform for Chrome');
-          process.exit(1);
-      }
-    }
-    
-    const browser = await puppeteerExtra.launch(launchOptions);
-    Logger.info('Browser launched with stealth mode!');
+    applyOptions(options);
+    const variables = loadVariables(options);
+
+    const browser = await launchBrowser(options);
 
     // Open a new page
     const page = await browser.newPage();
-
-    // register the page with the requests class
-    await page.setRequestInterception(true);
-    
-    page.on('request', request => {
-      Requests.newRequest(request);
-    });
-    
-    page.on('requestfinished', request => {
-      Requests.finishedRequest(request);
-    });
-    
-    page.on('requestfailed', request => {
-      Requests.failedRequest(request);
-    });
-
-    // Set viewport size from config
-    await page.setViewport({
-      width: viewport.width,
-      height: viewport.height,
-      deviceScaleFactor: 1  // This disables retina/high-DPI scaling
-    });
+    const requests = new Requests();
+    await preparePage(page, requests);
 
     // execute the script line by line
     Logger.log('Executing script...');
-    for (const line of scriptLines) {
-      // trim the line, continue to next line if it's empty
-      const trimmedLine = line.trim();
-      if (trimmedLine === '') {
-        continue;
-      }
-
-      await executeCommand(page, trimmedLine);
-    }
+    const result = await runScriptInPage(page, requests, options.script, variables);
+    await writeRunReports([result], options);
+    Artifacts.applyRetention([result]);
 
     // Close the browser
     // await browser.close();
     // console.log('Browser closed.');
-    Logger.log('Script execution completed!');
+    if (result.status === 'passed') {
+      Logger.log('Script execution completed!');
+    }
 
     if (!behavior.keepAlive) {
-      // wait for 5 seconds before closing the browser
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      // let the end state be seen before closing the browser, in the demo profile
+      await new Promise(resolve => setTimeout(resolve, getSpeedProfile().closeDelay));
+
+      if (result.status !== 'passed') {
+        process.exit(1); // Exit with error code 1, a common convention for errors
+      }
 
       // close the browser
       await browser.close();
@@ -184,11 +212,83 @@ const launchBrowser = async () => {
     Logger.error(error instanceof Error ? error.stack || '' : '');
 
     if (!behavior.keepAlive) {
-      // wait for 5 seconds before force exiting
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      // let the error be seen before force exiting, in the demo profile
+      await new Promise(resolve => setTimeout(resolve, getSpeedProfile().closeDelay));
       process.exit(1); // Exit with error code 1, a common convention for errors
     }
   }
 };
 
-launchBrowser();
+/**
+ * Runs every script file matching the glob patterns, each in its own incognito browser context
+ * @param patterns Glob patterns of the script files
+ * @param options Command line options
+ */
+const runMultipleScripts = async (patterns: string[], options: any) => {
+  try {
+    if (options.clearCache) {
+      LLM.clearCache();
+    }
+
+    const scriptPaths = await discoverScripts(patterns);
+    if (scriptPaths.length === 0) {
+      Logger.error(`Error: No script files found matching ${patterns.join(', ')}`);
+      process.exit(1);
+    }
+
+    const workers = parseInt(options.workers, 10);
+    if (!Number.isInteger(workers) || workers < 1) {
+      Logger.error(`Error: Invalid number of workers: ${options.workers}`);
+      process.exit(1);
+    }
+
+    applyOptions(options);
+    const variables = loadVariables(options);
+
+    Logger.log(`Running ${scriptPaths.length} scripts with ${workers} workers...`);
+    const browser = await launchBrowser(options);
+    const results = await runScripts(browser, scriptPaths, workers, variables);
+    await browser.close();
+
+    printSummary(results);
+    await writeRunReports(results, options);
+    Artifacts.applyRetention(results);
+    process.exit(results.every(result => result.status === 'passed') ? 0 : 1);
+  } catch (error) {
+    Logger.error(`Error: ${error}`);
+    Logger.error(error instanceof Error ? error.stack || '' : '');
+    process.exit(1);
+  }
+};
+
+// Set up command line options
+const program = new Command();
+program
+  .option('-s, --script <path>', 'Path to script file')
+  .option('-h, --headless', 'Run in headless mode')
+  .option('-c, --chrome', 'Use system installed Chrome')
+  .option('-k, --key <key>', 'Override default API key')
+  .option('-p, --provider <name>', 'LLM provider to use (anthropic, openai, local, fake)')
+  .option('-a, --alive', 'Keep the browser alive after script execution')
+  .option('-n, --nosandbox', 'Launch Chrome without sandbox')
+  .option('--clear-cache', 'Remove all cached LLM responses before running')
+  .option('-r, --report [dir]', 'Write JUnit XML, JSON and HTML reports of the run')
+  .option('--vars <path>', 'Path to a YAML file with the variables and secrets of the scripts')
+  .option('--record', 'Record the action resolved for each script line to the script\'s lockfile')
+  .option('--replay', 'Replay the actions from the script\'s lockfile, only calling the LLM for stale entries')
+  .option('--no-artifacts', 'Don\'t write screenshots, prompts and LLM responses to the artifacts directory')
+  .option('--update-baselines', 'Overwrite the baselines of the screenshot assertions with the current captures')
+  .option('--refine', 'Confirm the location of the element actions on a zoomed-in crop of the screenshot')
+  .option('--outline', 'Send an outline of the page\'s accessibility tree to the LLM along with the screenshots')
+  .option('--speed <profile>', 'Speed profile: demo shows the pointer and types like a human, ci skips the cosmetic pauses')
+  .action(runSingleScript);
+
+program
+  .command('run')
+  .description('Run every script file matching the glob patterns in parallel')
+  .argument('<patterns...>', 'Glob patterns of the script files')
+  .option('-w, --workers <n>', 'Maximum number of scripts running at the same time', '4')
+  .helpOption('--help')
+  .action((patterns: string[], _options: any, command: Command) => runMultipleScripts(patterns, command.optsWithGlobals()));
+
+program.parse(process.argv);
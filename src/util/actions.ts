@@ -0,0 +1,376 @@
+/**
+ * Fields shared by actions performed on an element of the page
+ */
+interface TargetedAction {
+    /** 1-based index of the snapshot containing the target element, optional when `target_id` is given */
+    target_image?: number;
+    /** Horizontal position of the target element in the snapshot (locating mode) */
+    location_x?: number;
+    /** Vertical position of the target element in the snapshot (locating mode) */
+    location_y?: number;
+    /** Id of the tagged target element (tagging mode, or taken from the page outline) */
+    target_id?: string;
+    comment?: string;
+}
+
+export interface ClickAction extends TargetedAction {
+    action: 'click';
+}
+
+export interface TypeAction extends TargetedAction {
+    action: 'type';
+    /** Text to type */
+    value: string;
+    /** Whether to replace the content of the field or to append to it, defaults to append */
+    mode?: 'replace' | 'append';
+}
+
+export interface SelectAction extends TargetedAction {
+    action: 'select';
+    /** Value or visible label of the option to select */
+    value: string;
+}
+
+export interface CheckAction extends TargetedAction {
+    action: 'check' | 'uncheck';
+}
+
+export interface UploadAction extends TargetedAction {
+    action: 'upload';
+    /** Path of the file to upload, relative to the script */
+    value: string;
+}
+
+export interface ClearAction extends TargetedAction {
+    action: 'clear';
+}
+
+export interface PressAction extends TargetedAction {
+    action: 'press';
+    /** Key or shortcut to press, e.g. `Enter` or `Control+A`; the target, if any, is focused first */
+    value: string;
+}
+
+export interface HoverAction extends TargetedAction {
+    action: 'hover';
+}
+
+export interface ScrollAction extends TargetedAction {
+    action: 'scroll';
+    /** Scroll direction, defaults to down */
+    direction?: 'up' | 'down' | 'left' | 'right';
+    /** Distance to scroll in pixels, defaults to most of the viewport */
+    amount?: number;
+    /** Text to scroll into view instead of scrolling by a distance */
+    value?: string;
+}
+
+export interface DragAction extends TargetedAction {
+    action: 'drag';
+    /** 1-based index of the snapshot containing the drop target */
+    to_target_image?: number;
+    /** Horizontal position of the drop target in the snapshot (locating mode) */
+    to_location_x?: number;
+    /** Vertical position of the drop target in the snapshot (locating mode) */
+    to_location_y?: number;
+    /** Id of the tagged drop target */
+    to_target_id?: string;
+}
+
+export interface NavigateAction {
+    action: 'navigate';
+    /** URL to navigate to */
+    value: string;
+    comment?: string;
+}
+
+export interface ExpectationAction {
+    action: 'expectation';
+    /** Whether the expected element or content is present */
+    value: boolean;
+    target_image?: number;
+    location_x?: number;
+    location_y?: number;
+    comment?: string;
+}
+
+export interface ExtractAction {
+    action: 'extract';
+    /** Name of the variable to store the value in */
+    variable: string;
+    /** The value read from the page */
+    value: string;
+    target_image?: number;
+    location_x?: number;
+    location_y?: number;
+    target_id?: string;
+    comment?: string;
+}
+
+export interface UnknownAction {
+    action: 'unknown';
+    comment?: string;
+}
+
+/**
+ * An action returned by the LLM
+ */
+export type Action = ClickAction | TypeAction | SelectAction | CheckAction | UploadAction | ClearAction
+    | PressAction | HoverAction | ScrollAction | DragAction | NavigateAction | ExpectationAction | ExtractAction | UnknownAction;
+
+/**
+ * Actions performed on an element of the page
+ */
+export type ElementAction = ClickAction | TypeAction | SelectAction | CheckAction | UploadAction | ClearAction
+    | PressAction | HoverAction | ScrollAction | DragAction | ExtractAction;
+
+/**
+ * Checks whether the action is performed on an element of the page
+ * @param action The action to check
+ * @returns {boolean} Whether the action targets an element
+ */
+export const isElementAction = (action: Action): action is ElementAction =>
+    ['click', 'type', 'select', 'check', 'uncheck', 'upload', 'clear', 'press', 'hover', 'scroll', 'drag', 'extract'].includes(action.action);
+
+/**
+ * What the action is validated against
+ */
+export interface ActionValidationContext {
+    /** Whether the action was determined in tagging mode */
+    tagging: boolean;
+    /** Size of each snapshot sent to the LLM */
+    imageSizes: { width: number; height: number }[];
+    /** Ids of the tagged elements, empty if the page wasn't tagged */
+    elementIds: string[];
+}
+
+/**
+ * Result of validating a raw LLM action
+ */
+export interface ActionValidationResult {
+    /** The normalized action, null if validation failed */
+    action: Action | null;
+    /** Validation errors, empty if the action is valid */
+    errors: string[];
+}
+
+/**
+ * An action as parsed from the LLM response, its fields not checked yet
+ */
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+/**
+ * Checks an action, normalizing its fields in place, and adds the problems found to the errors
+ */
+type ActionValidator<T> = (action: Unchecked<T>, context: ActionValidationContext, errors: string[]) => void;
+
+/**
+ * Checks that the action targets an existing snapshot
+ */
+const validateTargetImage: ActionValidator<TargetedAction> = (action, context, errors) => {
+    if (typeof action.target_image !== 'number' || !Number.isInteger(action.target_image)) {
+        errors.push('`target_image` must be an integer');
+    } else if (action.target_image < 1 || action.target_image > context.imageSizes.length) {
+        errors.push(`\`target_image\` must be between 1 and ${context.imageSizes.length}, got ${action.target_image}`);
+    }
+};
+
+/**
+ * Checks that the location lies inside the bounds of the target snapshot
+ */
+const validateLocation: ActionValidator<TargetedAction> = (action, context, errors) => {
+    if (typeof action.location_x !== 'number' || typeof action.location_y !== 'number') {
+        errors.push('`location_x` and `location_y` must be numbers');
+        return;
+    }
+
+    const size = typeof action.target_image === 'number' ? context.imageSizes[action.target_image - 1] : undefined;
+    if (!size) {
+        return;
+    }
+    if (action.location_x < 0 || action.location_x > size.width || action.location_y < 0 || action.location_y > size.height) {
+        errors.push(`location (${action.location_x}, ${action.location_y}) is outside of snapshot ${action.target_image} (${size.width}x${size.height})`);
+    }
+};
+
+/**
+ * Checks the target of an action performed on an element
+ */
+const validateTarget: ActionValidator<TargetedAction> = (action, context, errors) => {
+    if (typeof action.target_id === 'number') {
+        action.target_id = action.target_id.toString();
+    }
+    const targetId = typeof action.target_id === 'string' && action.target_id.trim() !== '' ? action.target_id : undefined;
+
+    if (context.tagging && targetId === undefined) {
+        validateTargetImage(action, context, errors);
+        errors.push('`target_id` is required in tagging mode');
+        return;
+    }
+
+    // a tagged element is located by its id, it doesn't need to be in the snapshots sent
+    if (targetId !== undefined && (context.tagging || context.elementIds.length > 0)) {
+        if (!context.elementIds.includes(targetId)) {
+            errors.push(`\`target_id\` must be the id of a tagged element, got ${JSON.stringify(action.target_id)}`);
+        }
+        if (action.target_image !== undefined) {
+            validateTargetImage(action, context, errors);
+        }
+        return;
+    }
+
+    validateTargetImage(action, context, errors);
+    validateLocation(action, context, errors);
+};
+
+/**
+ * Checks the target of an action whose target is optional, when it is given
+ */
+const validateOptionalTarget: ActionValidator<TargetedAction> = (action, context, errors) => {
+    if (action.target_id !== undefined || action.location_x !== undefined || action.location_y !== undefined) {
+        validateTarget(action, context, errors);
+    }
+};
+
+/**
+ * Checks the drop target of a drag action, with the same rules as the target
+ */
+const validateDropTarget: ActionValidator<DragAction> = (action, context, errors) => {
+    const dropTarget: Unchecked<TargetedAction> = {
+        target_image: action.to_target_image,
+        location_x: action.to_location_x,
+        location_y: action.to_location_y,
+        target_id: action.to_target_id
+    };
+    const dropTargetErrors: string[] = [];
+    validateTarget(dropTarget, context, dropTargetErrors);
+
+    action.to_target_id = dropTarget.target_id;
+    errors.push(...dropTargetErrors.map(error => error
+        .replace(/`(target_image|target_id|location_x|location_y)`/g, '`to_$1`')
+        .replace(/^location /, 'drop location ')));
+};
+
+/**
+ * Validators of each supported action, also the list of known actions
+ */
+const ACTION_VALIDATORS: { [A in Action as A['action']]: ActionValidator<A> } = {
+    click: validateTarget,
+    type: (action, context, errors) => {
+        validateTarget(action, context, errors);
+        if (typeof action.value === 'number') {
+            action.value = action.value.toString();
+        }
+        if (typeof action.value !== 'string') {
+            errors.push('`value` must be the text to type');
+        }
+        if (action.mode !== undefined && action.mode !== 'replace' && action.mode !== 'append') {
+            errors.push('`mode` must be `replace` or `append`');
+        }
+    },
+    select: (action, context, errors) => {
+        validateTarget(action, context, errors);
+        if (typeof action.value === 'number') {
+            action.value = action.value.toString();
+        }
+        if (typeof action.value !== 'string' || action.value.trim() === '') {
+            errors.push('`value` must be the value or label of the option to select');
+        }
+    },
+    check: validateTarget,
+    uncheck: validateTarget,
+    upload: (action, context, errors) => {
+        validateTarget(action, context, errors);
+        if (typeof action.value !== 'string' || action.value.trim() === '') {
+            errors.push('`value` must be the path of the file to upload');
+        }
+    },
+    clear: validateTarget,
+    press: (action, context, errors) => {
+        validateOptionalTarget(action, context, errors);
+        if (typeof action.value !== 'string' || action.value.trim() === '') {
+            errors.push('`value` must be the key or shortcut to press, e.g. `Enter` or `Control+A`');
+        }
+    },
+    hover: validateTarget,
+    scroll: (action, context, errors) => {
+        validateOptionalTarget(action, context, errors);
+        if (action.direction !== undefined && (typeof action.direction !== 'string' || !['up', 'down', 'left', 'right'].includes(action.direction))) {
+            errors.push('`direction` must be `up`, `down`, `left` or `right`');
+        }
+        if (typeof action.amount === 'string' && action.amount.trim() !== '' && !isNaN(Number(action.amount))) {
+            action.amount = Number(action.amount);
+        }
+        if (action.amount !== undefined && (typeof action.amount !== 'number' || action.amount <= 0)) {
+            errors.push('`amount` must be a positive number of pixels');
+        }
+        if (action.value !== undefined && (typeof action.value !== 'string' || action.value.trim() === '')) {
+            errors.push('`value` must be the text to scroll into view');
+        }
+    },
+    drag: (action, context, errors) => {
+        validateTarget(action, context, errors);
+        validateDropTarget(action, context, errors);
+    },
+    navigate: (action, context, errors) => {
+        if (typeof action.value !== 'string' || action.value.trim() === '') {
+            errors.push('`value` must be the URL to navigate to');
+        }
+    },
+    expectation: (action, context, errors) => {
+        if (action.value === 'true' || action.value === 'false') {
+            action.value = action.value === 'true';
+        }
+        if (typeof action.value !== 'boolean') {
+            errors.push('`value` must be `true` or `false`');
+        }
+    },
+    extract: (action, context, errors) => {
+        if (typeof action.variable !== 'string' || !/^[A-Za-z_][\w.-]*$/.test(action.variable)) {
+            errors.push('`variable` must be the name of the variable to store the value in');
+        }
+        if (typeof action.value === 'number') {
+            action.value = action.value.toString();
+        }
+        if (typeof action.value !== 'string') {
+            errors.push('`value` must be the text read from the page');
+        }
+
+        // the target is optional, but must be valid when given, a snapshot alone is enough
+        if (action.target_id === undefined && action.location_x === undefined && action.location_y === undefined) {
+            if (action.target_image !== undefined) {
+                validateTargetImage(action, context, errors);
+            }
+        } else {
+            validateOptionalTarget(action, context, errors);
+        }
+    },
+    unknown: () => {},
+};
+
+/**
+ * Validates and normalizes an action returned by the LLM
+ * @param rawAction Parsed JSON returned by the LLM
+ * @param context What the action is validated against
+ * @returns {ActionValidationResult} The normalized action and the validation errors
+ */
+export const validateAction = (rawAction: unknown, context: ActionValidationContext): ActionValidationResult => {
+    if (typeof rawAction !== 'object' || rawAction === null || Array.isArray(rawAction)) {
+        return { action: null, errors: ['the response must contain a single JSON object'] };
+    }
+
+    const action: Unchecked<Action> = { ...rawAction };
+    if (typeof action.action !== 'string' || !Object.prototype.hasOwnProperty.call(ACTION_VALIDATORS, action.action)) {
+        return {
+            action: null,
+            errors: [`\`action\` must be one of ${Object.keys(ACTION_VALIDATORS).join(', ')}, got ${JSON.stringify(action.action)}`]
+        };
+    }
+
+    const errors: string[] = [];
+    // the validator of each action only sees the fields of that action
+    const validate = ACTION_VALIDATORS[action.action as Action['action']] as ActionValidator<Action>;
+    validate(action, context, errors);
+
+    return { action: errors.length === 0 ? action as Action : null, errors };
+};
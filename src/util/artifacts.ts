@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import config from 'config';
+import { Logger } from './logger';
+import { ScriptResult } from './report';
+
+/**
+ * Artifact settings
+ */
+interface ArtifactsConfig {
+    /** Whether artifacts are written to disk at all */
+    enabled: boolean;
+    /** Root directory of the artifacts */
+    dir: string;
+    /** Number of runs kept per script, 0 to keep every run */
+    keepLast: number;
+    /** Whether to only keep the runs that didn't pass */
+    onlyFailures: boolean;
+}
+
+/**
+ * Name of a run directory, e.g. `2025-01-31T10-15-42-123Z-9f3a`
+ */
+const RUN_ID = /^\d{4}-\d{2}-\d{2}T[\d-]+Z-[0-9a-f]{4}$/;
+
+/**
+ * Files written during a script run: captures, prompts, LLM responses and actions, stored by step
+ * in `<artifacts dir>/<script path>/<run id>/`, the script path being relative to the working directory
+ */
+export class Artifacts {
+    public readonly runId: string;
+    /** Directory of the run, null if artifacts are disabled */
+    public readonly runDir: string | null;
+    private readonly settings: ArtifactsConfig;
+
+    constructor(scriptPath: string) {
+        this.settings = config.get<ArtifactsConfig>('artifacts');
+
+        // run ids sort chronologically, the random suffix keeps concurrent runs apart
+        this.runId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(2).toString('hex')}`;
+        // same-named scripts of different folders get different directories, the ones outside of the working directory too
+        const relative = path.relative(process.cwd(), path.resolve(scriptPath)).replace(/\.[^./\\]*$/, '');
+        const scriptDir = path.join(this.settings.dir, ...relative.split(/[/\\]/).map(part => (part === '..' ? '_' : part)));
+        this.runDir = this.settings.enabled ? path.join(scriptDir, this.runId) : null;
+    }
+
+    /**
+     * Gets the directory of a step, or of one of its attempts, creating it if needed
+     * @param step 1-based step number
+     * @param attempt 1-based attempt number, if the step calls the LLM
+     * @returns {string | null} The directory, null if artifacts are disabled
+     */
+    public stepDir(step: number, attempt?: number): string | null {
+        if (!this.runDir) {
+            return null;
+        }
+
+        const name = `step-${step.toString().padStart(2, '0')}${attempt !== undefined ? `-attempt-${attempt}` : ''}`;
+        const dir = path.join(this.runDir, name);
+        fs.mkdirSync(dir, { recursive: true });
+        return dir;
+    }
+
+    /**
+     * Writes a file to a step directory
+     * @param dir Step directory, null if artifacts are disabled
+     * @param name File name
+     * @param content File content
+     * @returns {string | null} Path of the written file, null if artifacts are disabled
+     */
+    public write(dir: string | null, name: string, content: string | Buffer): string | null {
+        if (!dir) {
+            return null;
+        }
+
+        const filePath = path.join(dir, name);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    /**
+     * Applies the retention settings to the runs once their reports are written, so the reports can still
+     * inline the screenshots, never throws
+     * @param results Outcome of each script run
+     */
+    public static applyRetention(results: ScriptResult[]): void {
+        const settings = config.get<ArtifactsConfig>('artifacts');
+        for (const { runDir, status } of results) {
+            if (!runDir || !fs.existsSync(runDir)) {
+                continue;
+            }
+
+            const scriptDir = path.dirname(runDir);
+            try {
+                if (settings.onlyFailures && status === 'passed') {
+                    fs.rmSync(runDir, { recursive: true, force: true });
+                    Logger.debug(`Artifacts removed, the run passed: ${runDir}`);
+                }
+
+                if (settings.keepLast > 0) {
+                    // the directories of the scripts of a sub-folder named like the script aren't runs
+                    const runs = fs.readdirSync(scriptDir, { withFileTypes: true })
+                        .filter(entry => entry.isDirectory() && RUN_ID.test(entry.name))
+                        .map(entry => entry.name)
+                        .sort();
+                    for (const run of runs.slice(0, Math.max(0, runs.length - settings.keepLast))) {
+                        fs.rmSync(path.join(scriptDir, run), { recursive: true, force: true });
+                        Logger.debug(`Old artifacts removed: ${path.join(scriptDir, run)}`);
+                    }
+                }
+            } catch (error) {
+                // the outcome of the run doesn't depend on the cleanup
+                Logger.warn(`Failed to clean up the artifacts of ${scriptDir}: ${error}`);
+            }
+        }
+    }
+}
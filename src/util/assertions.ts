@@ -0,0 +1,170 @@
+import { Page } from 'puppeteer';
+import { StepFailedError } from './errors';
+
+/**
+ * How an actual value is compared with the expected one
+ */
+export type Comparison = 'be' | 'equal' | 'contain' | 'match';
+
+/**
+ * How a number of elements is compared with the expected one
+ */
+export type CountComparison = 'exactly' | 'at least' | 'at most' | 'more than' | 'fewer than';
+
+/**
+ * Turns the expected value of a `match` comparison into a regular expression, either `/source/flags` or a plain source
+ * @param expected The expected value
+ * @returns {RegExp} The regular expression
+ */
+const toRegExp = (expected: string): RegExp => {
+    const literal = expected.match(/^\/(.+)\/([a-z]*)$/s);
+    try {
+        return literal ? new RegExp(literal[1], literal[2]) : new RegExp(expected);
+    } catch (error) {
+        throw new StepFailedError(`Invalid regular expression ${expected}: ${error}`);
+    }
+};
+
+/**
+ * Compares a value and throws a step failure with the expected and actual values if the comparison doesn't hold
+ * @param subject What the value is, e.g. `the URL`
+ * @param actual The actual value, null if there is none
+ * @param comparison How the values are compared
+ * @param expected The expected value
+ * @param negated Whether the comparison must not hold
+ * @throws {StepFailedError} If the comparison doesn't hold or the regular expression is invalid
+ */
+export function assertValue(subject: string, actual: string | null, comparison: Comparison, expected: string, negated: boolean): void {
+    let holds: boolean;
+    if (actual === null) {
+        holds = false;
+    } else if (comparison === 'contain') {
+        holds = actual.includes(expected);
+    } else if (comparison === 'match') {
+        holds = toRegExp(expected).test(actual);
+    } else {
+        holds = actual.trim() === expected.trim();
+    }
+
+    if (holds === negated) {
+        const verb = comparison === 'equal' ? 'be' : comparison;
+        throw new StepFailedError(
+            `Expected ${subject} ${negated ? 'not ' : ''}to ${verb} "${expected}", got ${actual === null ? 'none' : `"${actual}"`}`
+        );
+    }
+}
+
+/**
+ * Checks whether an item exists and throws a step failure if it doesn't as expected
+ * @param subject What the item is, e.g. `the cookie "session"`
+ * @param actual The value of the item, null if there is none
+ * @param negated Whether the item must not exist
+ * @throws {StepFailedError} If the item doesn't exist as expected
+ */
+export function assertExists(subject: string, actual: string | null, negated: boolean): void {
+    if ((actual !== null) === negated) {
+        throw new StepFailedError(
+            `Expected ${subject} ${negated ? 'not ' : ''}to exist, ${actual === null ? 'it doesn\'t' : `got "${actual}"`}`
+        );
+    }
+}
+
+/**
+ * Gets the URL of the page, or its path when the expected value is a path
+ * @param page Puppeteer Page object
+ * @param expected The expected value
+ * @returns {string} The URL or its path, query and hash
+ */
+export function getComparableUrl(page: Page, expected: string): string {
+    const url = new URL(page.url());
+    return expected.startsWith('/') && !expected.match(/^\/.+\/[a-z]*$/s) ? `${url.pathname}${url.search}${url.hash}` : url.href;
+}
+
+/**
+ * Longest excerpt of the page text quoted in a failure message
+ */
+const MAX_EXCERPT_LENGTH = 200;
+
+/**
+ * Checks whether the rendered text of the page and of its frames contains a text, ignoring the case
+ * and the whitespace, and throws a step failure if it doesn't as expected
+ * @param page Puppeteer Page object
+ * @param expected The text
+ * @param negated Whether the page must not contain the text
+ * @throws {StepFailedError} If the page doesn't contain the text as expected
+ */
+export async function assertPageText(page: Page, expected: string, negated: boolean): Promise<void> {
+    const texts: string[] = [];
+    for (const frame of page.frames()) {
+        if (frame.detached) {
+            continue;
+        }
+        texts.push(await frame.evaluate(() => document.body?.innerText || '').catch(() => ''));
+    }
+
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    const text = normalize(texts.join('\n'));
+    if (text.toLowerCase().includes(normalize(expected).toLowerCase()) === negated) {
+        const excerpt = text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+        throw new StepFailedError(negated
+            ? `Expected the page not to contain "${expected}", but it does`
+            : `Expected the page to contain "${expected}", page text: "${excerpt}"`);
+    }
+}
+
+/**
+ * Counts the elements matching a selector and throws a step failure if the count isn't as expected
+ * @param page Puppeteer Page object
+ * @param selector CSS selector
+ * @param comparison How the count is compared
+ * @param expected The expected count
+ * @throws {StepFailedError} If the count isn't as expected or the selector is invalid
+ */
+export async function assertCount(page: Page, selector: string, comparison: CountComparison, expected: number): Promise<void> {
+    let count: number;
+    try {
+        count = await page.$$eval(selector, elements => elements.length);
+    } catch (error) {
+        throw new StepFailedError(`Invalid selector ${selector}: ${error}`);
+    }
+
+    const holds = {
+        'exactly': count === expected,
+        'at least': count >= expected,
+        'at most': count <= expected,
+        'more than': count > expected,
+        'fewer than': count < expected
+    }[comparison];
+    if (!holds) {
+        throw new StepFailedError(
+            `Expected ${comparison === 'exactly' ? '' : `${comparison} `}${expected} element${expected === 1 ? '' : 's'} matching "${selector}", got ${count}`
+        );
+    }
+}
+
+/**
+ * Gets the value of a cookie set for the page
+ * @param page Puppeteer Page object
+ * @param name Cookie name
+ * @returns {Promise<string | null>} The cookie value, null if there is no such cookie
+ */
+export async function getCookie(page: Page, name: string): Promise<string | null> {
+    const host = new URL(page.url()).hostname;
+    const cookies = await page.browserContext().cookies();
+    const cookie = cookies.find(cookie => {
+        const domain = cookie.domain.replace(/^\./, '');
+        return cookie.name === name && (host === domain || host.endsWith(`.${domain}`));
+    });
+    return cookie ? cookie.value : null;
+}
+
+/**
+ * Gets an item of the local or session storage of the page
+ * @param page Puppeteer Page object
+ * @param storage Which storage to read
+ * @param key Item key
+ * @returns {Promise<string | null>} The item value, null if there is no such item
+ */
+export async function getStorageItem(page: Page, storage: 'local' | 'session', key: string): Promise<string | null> {
+    return await page.evaluate((storage, key) => (storage === 'local' ? localStorage : sessionStorage).getItem(key), storage, key);
+}
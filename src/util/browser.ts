@@ -0,0 +1,107 @@
+import { Browser, Page, Permission } from 'puppeteer';
+import puppeteerExtra from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import config from 'config';
+import { Logger } from './logger';
+import { Requests } from './requests';
+
+puppeteerExtra.use(StealthPlugin());
+
+/**
+ * Command line options affecting how the browser is launched
+ */
+export interface BrowserOptions {
+    headless?: boolean;
+    chrome?: boolean;
+    nosandbox?: boolean;
+}
+
+/**
+ * Launches the browser with stealth mode
+ * @param options Command line options
+ * @returns {Promise<Browser>} The launched browser
+ */
+export const launchBrowser = async (options: BrowserOptions): Promise<Browser> => {
+    const viewport = config.get<{ width: number; height: number }>('viewport');
+    const behavior = config.get<{ headless: boolean; useChrome: boolean; keepAlive: boolean }>('behavior');
+
+    // Launch Chrome instead of Chromium
+    const launchOptions: any = {
+        headless: options.headless || behavior.headless,
+        args: [
+            '--start-maximized',
+            '--force-device-scale-factor=1',
+        ], // Optional: starts Chrome maximized
+        defaultViewport: {
+            width: viewport.width,
+            height: viewport.height,
+            deviceScaleFactor: 1  // This disables retina/high-DPI scaling
+        }
+    }
+
+    if (options.nosandbox) {
+        launchOptions.args.push('--no-sandbox');
+        launchOptions.args.push('--disable-setuid-sandbox');
+    }
+
+    if (options.chrome || behavior.useChrome) {
+        // Set Chrome path based on platform
+        switch (process.platform) {
+            case 'win32':
+                launchOptions.executablePath = 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe';
+                break;
+            case 'darwin':
+                launchOptions.executablePath = '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome';
+                break;
+            case 'linux':
+                launchOptions.executablePath = '/usr/bin/google-chrome';
+                break;
+            default:
+                throw new Error('Unsupported platform for Chrome');
+        }
+    }
+
+    const browser = await puppeteerExtra.launch(launchOptions);
+    Logger.info('Browser launched with stealth mode!');
+
+    return browser;
+};
+
+/**
+ * Permissions granted to the pages without prompting
+ */
+interface PermissionsConfig {
+    /** Permissions by origin, e.g. `geolocation` or `notifications` */
+    origins: Record<string, Permission[]>;
+    /** Position reported to the pages, if any */
+    geolocation: { latitude: number; longitude: number; accuracy?: number } | null;
+}
+
+/**
+ * Registers the page with its request tracking, sets the configured viewport and grants the configured permissions
+ * @param page Puppeteer Page object
+ * @param requests Request tracking of the page
+ * @returns {Promise<void>}
+ */
+export const preparePage = async (page: Page, requests: Requests): Promise<void> => {
+    const viewport = config.get<{ width: number; height: number }>('viewport');
+    const permissions = config.get<PermissionsConfig>('permissions');
+
+    // register the page with the requests tracking
+    await requests.attach(page);
+
+    // Set viewport size from config
+    await page.setViewport({
+        width: viewport.width,
+        height: viewport.height,
+        deviceScaleFactor: 1  // This disables retina/high-DPI scaling
+    });
+
+    // the permissions are granted to the browser context, so they apply to the tabs it opens
+    for (const [origin, granted] of Object.entries(permissions.origins || {})) {
+        await page.browserContext().overridePermissions(origin, granted);
+    }
+    if (permissions.geolocation) {
+        await page.setGeolocation(permissions.geolocation);
+    }
+};
@@ -0,0 +1,161 @@
+import config from 'config';
+import { ConsoleMessage, Page } from 'puppeteer';
+import { Logger } from './logger';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+
+/**
+ * Console settings
+ */
+interface ConsoleConfig {
+    /** What fails the step it happens in: `off`, `uncaught` errors, or any `error` including `console.error` */
+    failOn: 'off' | 'uncaught' | 'error';
+    /** Regular expressions of the messages left out of the policy and the expectations, matched against the text and the source */
+    ignore: string[];
+    /** Most messages recorded per step, the errors are always recorded */
+    maxPerStep: number;
+}
+
+/**
+ * A console message or an uncaught error of a page
+ */
+export interface ConsoleRecord {
+    /** Console message type, e.g. `log` or `error`, or `uncaught` for an uncaught exception or promise rejection */
+    type: string;
+    text: string;
+    /** Source of the message, `url:line:column` */
+    location?: string;
+    /** 1-based step during which the message was logged */
+    step: number;
+    /** Whether the message matches an ignore pattern */
+    ignored?: boolean;
+}
+
+/**
+ * Gets the source of an uncaught error from its stack
+ * @param error The error
+ * @returns {string | undefined} The source, `url:line:column`, undefined if the stack has none
+ */
+const errorLocation = (error: Error): string | undefined => {
+    for (const line of (error.stack ?? '').split('\n').slice(1)) {
+        const frame = line.match(/^\s*at\s+(?:.*?\s+\()?(.+?:\d+:\d+)\)?$/);
+        if (frame) {
+            return frame[1];
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Captures the console messages and the uncaught errors of the pages of a script run, records them on
+ * the step they happen in, and fails the step as the `console.failOn` policy says
+ */
+export class ConsoleCapture {
+    /** Messages and errors of the run, the latest last */
+    public readonly records: ConsoleRecord[];
+    private readonly context: ScriptContext;
+    private readonly settings: ConsoleConfig;
+    private readonly ignore: RegExp[];
+
+    constructor(context: ScriptContext) {
+        this.records = [];
+        this.context = context;
+        this.settings = config.get<ConsoleConfig>('console');
+        this.ignore = this.settings.ignore.map(pattern => new RegExp(pattern, 'i'));
+    }
+
+    /**
+     * Captures the console and the uncaught errors of a page
+     * @param page Puppeteer Page object
+     */
+    public attach(page: Page): void {
+        page.on('console', message => this.logged(message));
+        page.on('pageerror', error => this.thrown(error));
+    }
+
+    private logged(message: ConsoleMessage): void {
+        const location = message.location();
+        this.record({
+            type: message.type(),
+            text: message.text(),
+            location: location.url
+                ? `${location.url}:${(location.lineNumber ?? 0) + 1}:${(location.columnNumber ?? 0) + 1}`
+                : undefined,
+            step: this.context.report.stepNumber
+        });
+    }
+
+    private thrown(error: unknown): void {
+        // a rejected promise may hold any value
+        this.record({
+            type: 'uncaught',
+            text: error instanceof Error ? error.message : String(error),
+            location: error instanceof Error ? errorLocation(error) : undefined,
+            step: this.context.report.stepNumber
+        });
+    }
+
+    /**
+     * Records a message on the run and on the current step
+     * @param record The message
+     */
+    private record(record: ConsoleRecord): void {
+        // e.g. the page logging the form it submits
+        record.text = Logger.maskSecrets(record.text);
+        record.location = record.location !== undefined ? Logger.maskSecrets(record.location) : undefined;
+        record.ignored = this.ignore.some(pattern => pattern.test(record.text) || (record.location !== undefined && pattern.test(record.location))) || undefined;
+        this.records.push(record);
+
+        const isError = record.type === 'uncaught' || record.type === 'error';
+        if (isError && !record.ignored) {
+            Logger.warn(`Page ${record.type === 'uncaught' ? 'error' : 'console error'}: ${record.text}${record.location ? ` (${record.location})` : ''}`);
+        }
+
+        const step = this.context.report.currentStep;
+        if (step && (isError || (step.console?.length ?? 0) < this.settings.maxPerStep)) {
+            (step.console ??= []).push(record);
+        }
+    }
+
+    /**
+     * Lists the errors that aren't ignored
+     * @param includeConsole Whether the `console.error` messages count, besides the uncaught errors
+     * @param step Only the errors of this 1-based step, all of them if undefined
+     * @returns {ConsoleRecord[]} The errors
+     */
+    private errors(includeConsole: boolean, step?: number): ConsoleRecord[] {
+        return this.records.filter(record => !record.ignored
+            && (record.type === 'uncaught' || (includeConsole && record.type === 'error'))
+            && (step === undefined || record.step === step));
+    }
+
+    /**
+     * Applies the `console.failOn` policy to the current step
+     * @throws {StepFailedError} If the step logged an error the policy fails on
+     */
+    public checkStep(): void {
+        if (this.settings.failOn === 'off') {
+            return;
+        }
+
+        const errors = this.errors(this.settings.failOn === 'error', this.context.report.stepNumber);
+        if (errors.length > 0) {
+            throw new StepFailedError(`The page logged ${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors.slice(0, 3).map(error => error.text).join('; ')}`);
+        }
+    }
+
+    /**
+     * Checks that the pages threw no error during the run so far
+     * @param includeConsole Whether the `console.error` messages count, besides the uncaught errors
+     * @throws {StepFailedError} If an error that isn't ignored was thrown or logged
+     */
+    public expectNoErrors(includeConsole: boolean): void {
+        const errors = this.errors(includeConsole);
+        if (errors.length > 0) {
+            const listed = errors.slice(0, 5).map(error => `${error.text}${error.location ? ` (${error.location})` : ''}`);
+            throw new StepFailedError(
+                `Expected no ${includeConsole ? 'console' : 'JavaScript'} errors, got ${errors.length}: ${listed.join('; ')}${errors.length > 5 ? '; ...' : ''}`
+            );
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import path from 'path';
+import { Page } from 'puppeteer';
+import { Requests } from './requests';
+import { ScriptReport } from './report';
+import { Variables } from './variables';
+import { Lockfile } from './lockfile';
+import { Artifacts } from './artifacts';
+import { Tabs } from './tabs';
+import { Dialogs } from './dialogs';
+import { Downloads } from './downloads';
+import { NetworkCapture } from './network';
+import { ConsoleCapture } from './console';
+
+/**
+ * State of a single script run, passed along to every command of the script
+ */
+export class ScriptContext {
+    /** Tabs of the run, the script runs in the current one */
+    public readonly tabs: Tabs;
+    /** Request tracking of the tabs */
+    public readonly requests: Requests;
+    /** Path of the script file */
+    public readonly scriptPath: string;
+    /** Steps and attempts recorded for the run reports */
+    public readonly report: ScriptReport;
+    /** Variables and secrets of the run */
+    public readonly variables: Variables;
+    /** Actions recorded for the script lines */
+    public readonly lockfile: Lockfile;
+    /** Files written during the run */
+    public readonly artifacts: Artifacts;
+    /** JavaScript dialogs opened during the run */
+    public readonly dialogs: Dialogs;
+    /** Files downloaded during the run */
+    public readonly downloads: Downloads;
+    /** Requests and responses of the run */
+    public readonly network: NetworkCapture;
+    /** Console messages and uncaught errors of the run */
+    public readonly console: ConsoleCapture;
+    /** Script line after the current step, null if it is the last one */
+    public nextCommand: string | null;
+
+    constructor(page: Page, requests: Requests, scriptPath: string, variables: Variables) {
+        this.dialogs = new Dialogs(this);
+        this.dialogs.attach(page);
+        this.network = new NetworkCapture(this);
+        this.network.attach(page);
+        this.console = new ConsoleCapture(this);
+        this.console.attach(page);
+        this.tabs = new Tabs(page, requests, opened => {
+            this.dialogs.attach(opened);
+            this.network.attach(opened);
+            this.console.attach(opened);
+        });
+        this.requests = requests;
+        this.scriptPath = scriptPath;
+        this.report = new ScriptReport();
+        this.variables = variables;
+        this.lockfile = new Lockfile(scriptPath);
+        this.artifacts = new Artifacts(scriptPath);
+        this.downloads = new Downloads(this.artifacts);
+        this.nextCommand = null;
+    }
+
+    /**
+     * Page the script is running in, the current tab
+     */
+    public get page(): Page {
+        return this.tabs.current;
+    }
+
+    /**
+     * Directory of the script file, relative paths of the script are resolved against it
+     */
+    public get scriptDir(): string {
+        return path.dirname(path.resolve(this.scriptPath));
+    }
+
+    /**
+     * Gets the artifact directory of the current step, or of one of its attempts
+     * @param attempt 1-based attempt number, if the step calls the LLM
+     * @returns {string | null} The directory, null if artifacts are disabled
+     */
+    public stepDir(attempt?: number): string | null {
+        return this.artifacts.stepDir(this.report.stepNumber, attempt);
+    }
+}
@@ -0,0 +1,169 @@
+import config from 'config';
+import { Dialog, Page } from 'puppeteer';
+import { Logger } from './logger';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+import { unquote } from './variables';
+
+/**
+ * Dialog settings
+ */
+interface DialogsConfig {
+    /** Whether the dialogs not handled by a step are accepted or dismissed */
+    policy: 'accept' | 'dismiss';
+    /** Text entered into the prompt dialogs accepted by the policy */
+    promptText: string;
+}
+
+/**
+ * Kinds of JavaScript dialogs
+ */
+export type DialogKind = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+/**
+ * A dialog opened by the page and how it was handled
+ */
+export interface DialogRecord {
+    kind: DialogKind;
+    message: string;
+    /** Whether the dialog was accepted, as opposed to dismissed */
+    accepted: boolean;
+    /** Text entered into an accepted prompt */
+    promptText?: string;
+    /** 1-based step during which the dialog opened */
+    step: number;
+    /** Step that decided how the dialog was handled, undefined if the policy did */
+    handledByStep?: number;
+}
+
+/**
+ * How a step wants the next dialog to be handled
+ */
+interface DialogDecision {
+    accepted: boolean;
+    /** Expected kind of the dialog, any kind if undefined */
+    kind?: DialogKind;
+    promptText?: string;
+    /** 1-based step making the decision */
+    step: number;
+}
+
+/**
+ * Script line handling a dialog, e.g. `accept the confirmation dialog` or `accept the prompt with "Alice"`
+ */
+export const DIALOG_STEP_PATTERN = /^(accept|dismiss)\s+(?:the\s+)?(?:next\s+)?(alert|confirm(?:ation)?|prompt|dialog)(?:\s+dialog)?(?:\s+with\s+(.+))?$/i;
+
+/**
+ * Handles the `alert`, `confirm`, `prompt` and `beforeunload` dialogs of the pages, which would
+ * otherwise block them. A dialog is handled right away, as soon as it opens: by the step before it
+ * if that step asked for the next dialog, by the step after it if that step is a dialog step (the
+ * page is blocked until the dialog is closed, so it can't wait for that step to run), or else by the policy.
+ */
+export class Dialogs {
+    /** Dialogs opened during the run, the latest last */
+    public readonly records: DialogRecord[];
+    private readonly context: ScriptContext;
+    private readonly settings: DialogsConfig;
+    private queued: DialogDecision | null;
+
+    constructor(context: ScriptContext) {
+        this.records = [];
+        this.context = context;
+        this.settings = config.get<DialogsConfig>('dialogs');
+        this.queued = null;
+    }
+
+    /**
+     * Handles the dialogs of a page
+     * @param page Puppeteer Page object
+     */
+    public attach(page: Page): void {
+        page.on('dialog', dialog => {
+            this.handle(dialog).catch(error => Logger.warn(`Failed to handle the dialog: ${error}`));
+        });
+    }
+
+    /**
+     * The latest dialog, undefined if no dialog opened yet
+     */
+    public get last(): DialogRecord | undefined {
+        return this.records[this.records.length - 1];
+    }
+
+    /**
+     * Parses a dialog step
+     * @param command The script line
+     * @param step 1-based step number of the line
+     * @returns {DialogDecision | null} The decision of the step, null if the line isn't a dialog step
+     */
+    private parseStep(command: string, step: number): DialogDecision | null {
+        const match = command.match(DIALOG_STEP_PATTERN);
+        if (!match) {
+            return null;
+        }
+
+        const kind = match[2].toLowerCase();
+        return {
+            accepted: match[1].toLowerCase() === 'accept',
+            kind: kind === 'dialog' ? undefined : kind.startsWith('confirm') ? 'confirm' : kind as DialogKind,
+            promptText: match[3] !== undefined ? this.context.variables.resolveSecrets(this.context.variables.resolve(unquote(match[3]))) : undefined,
+            step
+        };
+    }
+
+    /**
+     * Handles a dialog as soon as it opens
+     * @param dialog Puppeteer Dialog object
+     * @returns {Promise<void>}
+     */
+    private async handle(dialog: Dialog): Promise<void> {
+        const step = this.context.report.stepNumber;
+        const next = this.context.nextCommand !== null ? this.parseStep(this.context.nextCommand, step + 1) : null;
+        const decision = this.queued ?? next;
+        this.queued = null;
+
+        const accepted = decision ? decision.accepted : this.settings.policy !== 'dismiss';
+        const promptText = accepted && dialog.type() === 'prompt'
+            ? decision?.promptText ?? (this.settings.promptText || dialog.defaultValue())
+            : undefined;
+        if (accepted) {
+            await dialog.accept(promptText);
+        } else {
+            await dialog.dismiss();
+        }
+
+        const record: DialogRecord = {
+            kind: dialog.type() as DialogKind,
+            message: dialog.message(),
+            accepted,
+            promptText,
+            step,
+            handledByStep: decision?.step
+        };
+        this.records.push(record);
+        Logger.info(`${record.kind} dialog ${accepted ? 'accepted' : 'dismissed'}${decision ? '' : ' by the policy'}: ${record.message}`);
+    }
+
+    /**
+     * Executes a dialog step: checks the dialog it already handled, or else asks for the next dialog to be handled as the step says
+     * @param command The script line
+     * @returns {Promise<void>}
+     * @throws {StepFailedError} If the handled dialog isn't of the expected kind
+     */
+    public async executeStep(command: string): Promise<void> {
+        const step = this.context.report.stepNumber;
+        const decision = this.parseStep(command, step)!;
+
+        const record = this.records.find(record => record.handledByStep === step);
+        if (!record) {
+            this.queued = decision;
+            Logger.info(`The next dialog will be ${decision.accepted ? 'accepted' : 'dismissed'}`);
+            return;
+        }
+
+        if (decision.kind && record.kind !== decision.kind) {
+            throw new StepFailedError(`Expected a ${decision.kind} dialog, got a ${record.kind} dialog: ${record.message}`);
+        }
+        Logger.info(`${record.kind} dialog was ${record.accepted ? 'accepted' : 'dismissed'}: ${record.message}`);
+    }
+}
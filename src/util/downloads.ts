@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from 'config';
+import { CDPSession, Page, Protocol } from 'puppeteer';
+import { Logger } from './logger';
+import { Artifacts } from './artifacts';
+import { StepFailedError } from './errors';
+
+/**
+ * Download settings
+ */
+interface DownloadsConfig {
+    /** How long a download step waits for the file, in milliseconds */
+    timeout: number;
+}
+
+/**
+ * A file downloaded by the page
+ */
+export interface DownloadRecord {
+    url: string;
+    /** File name suggested by the page */
+    filename: string;
+    state: 'inProgress' | 'completed' | 'canceled';
+    /** Path of the saved file, once completed */
+    path?: string;
+    /** Whether a download step already matched the file */
+    expected: boolean;
+}
+
+/**
+ * Turns a file name glob, e.g. `*.csv`, into a regular expression
+ * @param pattern File name glob
+ * @returns {RegExp} Case insensitive regular expression of the whole file name
+ */
+const globToRegExp = (pattern: string): RegExp => {
+    const source = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Captures the files downloaded during a script run into the `downloads` folder of the run's artifacts,
+ * or into a temporary folder removed after the run when the artifacts are disabled
+ */
+export class Downloads {
+    /** Downloads of the run, by download id */
+    public readonly records: Map<string, DownloadRecord>;
+    private readonly dir: string;
+    private readonly temporary: boolean;
+    private readonly settings: DownloadsConfig;
+    private session: CDPSession | null;
+
+    constructor(artifacts: Artifacts) {
+        this.records = new Map();
+        this.settings = config.get<DownloadsConfig>('downloads');
+        this.temporary = artifacts.runDir === null;
+        this.dir = artifacts.runDir
+            ? path.resolve(artifacts.runDir, 'downloads')
+            : path.join(os.tmpdir(), `webcopilot-downloads-${artifacts.runId}`);
+        this.session = null;
+    }
+
+    /**
+     * Starts capturing the downloads of the browser context of the page, never throws
+     * @param page Puppeteer Page object
+     * @returns {Promise<void>}
+     */
+    public async start(page: Page): Promise<void> {
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+
+            // the download behavior is set on the browser, for the browser context of the run
+            this.session = await page.browser().target().createCDPSession();
+            this.session.on('Browser.downloadWillBegin', event => this.began(event));
+            this.session.on('Browser.downloadProgress', event => this.progressed(event));
+            await this.session.send('Browser.setDownloadBehavior', {
+                behavior: 'allowAndName',
+                browserContextId: page.browserContext().id,
+                downloadPath: this.dir,
+                eventsEnabled: true
+            });
+        } catch (error) {
+            // the steps not downloading anything still run
+            Logger.warn(`Failed to capture the downloads: ${error}`);
+        }
+    }
+
+    /**
+     * Records a download that began, the events of the other browser contexts are received as well
+     * and only told apart once the file is saved
+     * @param event The download event
+     */
+    private began(event: Protocol.Browser.DownloadWillBeginEvent): void {
+        this.records.set(event.guid, {
+            url: event.url,
+            filename: event.suggestedFilename,
+            state: 'inProgress',
+            expected: false
+        });
+    }
+
+    /**
+     * Gives a completed download its suggested file name
+     * @param event The download event
+     */
+    private progressed(event: Protocol.Browser.DownloadProgressEvent): void {
+        const record = this.records.get(event.guid);
+        if (!record || event.state === 'inProgress') {
+            return;
+        }
+
+        // files are saved under their download id, in the folder of their own browser context
+        const savedPath = path.join(this.dir, event.guid);
+        if (event.state === 'completed' && !fs.existsSync(savedPath)) {
+            this.records.delete(event.guid);
+            return;
+        }
+
+        record.state = event.state;
+        if (event.state === 'completed') {
+            const parsed = path.parse(path.basename(record.filename) || 'download');
+            let filePath = path.join(this.dir, parsed.base);
+            for (let copy = 1; fs.existsSync(filePath); copy++) {
+                filePath = path.join(this.dir, `${parsed.name} (${copy})${parsed.ext}`);
+            }
+            fs.renameSync(savedPath, filePath);
+            record.path = filePath;
+            Logger.info(`File downloaded: ${filePath}`);
+        } else {
+            Logger.warn(`Download canceled: ${record.filename}`);
+        }
+    }
+
+    /**
+     * Waits for a download matching the file name pattern that no previous step matched
+     * @param pattern File name glob, e.g. `*.csv`
+     * @returns {Promise<DownloadRecord>} The completed download
+     * @throws {StepFailedError} If no such file was downloaded in time
+     */
+    public async expect(pattern: string): Promise<DownloadRecord> {
+        const regex = globToRegExp(pattern);
+        const deadline = Date.now() + this.settings.timeout;
+
+        for (;;) {
+            const record = Array.from(this.records.values())
+                .find(record => !record.expected && record.state === 'completed' && regex.test(record.filename));
+            if (record) {
+                record.expected = true;
+                return record;
+            }
+
+            if (Date.now() >= deadline) {
+                const downloaded = Array.from(this.records.values()).map(record => `${record.filename} (${record.state})`);
+                throw new StepFailedError(
+                    `No file named ${pattern} was downloaded${downloaded.length > 0 ? `, downloads: ${downloaded.join(', ')}` : ''}`
+                );
+            }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+    }
+
+    /**
+     * Stops capturing the downloads, never throws
+     * @returns {Promise<void>}
+     */
+    public async stop(): Promise<void> {
+        await this.session?.detach().catch(() => {});
+        this.session = null;
+
+        if (this.temporary) {
+            try {
+                fs.rmSync(this.dir, { recursive: true, force: true });
+            } catch (error) {
+                Logger.warn(`Failed to remove the downloads of ${this.dir}: ${error}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Raised when a script step can't be fulfilled, e.g. a false expectation or an action
+ * the LLM can't determine, as opposed to unexpected errors of the runner or the browser
+ */
+export class StepFailedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StepFailedError';
+    }
+}
@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import { ElementHandle, Frame, Page } from 'puppeteer';
+import { Logger } from './logger';
+import { StepFailedError } from './errors';
+
+/**
+ * Kinds of form controls the actions operate on
+ */
+export type ControlKind = 'select' | 'checkable' | 'file' | 'text';
+
+/**
+ * Whether the element is a frame, whose content is in another document
+ * @param element The element
+ * @returns {Promise<boolean>} Whether it is an `<iframe>` or a `<frame>`
+ */
+const isFrameElement = async (element: ElementHandle<Element>): Promise<boolean> => {
+    return await element.evaluate(element => element.tagName === 'IFRAME' || element.tagName === 'FRAME');
+};
+
+/**
+ * Gets the element at a viewport position, descending into open shadow roots and into frames,
+ * out-of-process ones included
+ * @param page Puppeteer Page object
+ * @param x Horizontal viewport position
+ * @param y Vertical viewport position
+ * @returns {Promise<ElementHandle<Element> | null>} The element, null if there is none
+ */
+export async function elementAtPoint(page: Page, x: number, y: number): Promise<ElementHandle<Element> | null> {
+    let frame: Frame = page.mainFrame();
+    for (;;) {
+        const handle = await frame.evaluateHandle((x, y) => {
+            let element = document.elementFromPoint(x, y);
+            while (element?.shadowRoot) {
+                const inner = element.shadowRoot.elementFromPoint(x, y);
+                if (!inner || inner === element) {
+                    break;
+                }
+                element = inner;
+            }
+            return element;
+        }, x, y);
+
+        const element = handle.asElement() as ElementHandle<Element> | null;
+        if (!element) {
+            await handle.dispose();
+            return null;
+        }
+        if (!await isFrameElement(element)) {
+            return element;
+        }
+
+        // continue in the frame, with the point relative to its content box
+        const offset = await element.evaluate(element => {
+            const rect = element.getBoundingClientRect();
+            const style = getComputedStyle(element);
+            return {
+                x: rect.left + element.clientLeft + parseFloat(style.paddingLeft),
+                y: rect.top + element.clientTop + parseFloat(style.paddingTop)
+            };
+        });
+        const contentFrame = await element.contentFrame();
+        if (!contentFrame) {
+            return element;
+        }
+        await element.dispose();
+
+        frame = contentFrame;
+        x -= offset.x;
+        y -= offset.y;
+    }
+}
+
+/**
+ * Gets the focused element, descending into open shadow roots and into frames
+ * @param page Puppeteer Page object
+ * @returns {Promise<ElementHandle<Element> | null>} The element, null if nothing is focused
+ */
+export async function focusedElement(page: Page): Promise<ElementHandle<Element> | null> {
+    let frame: Frame = page.mainFrame();
+    for (;;) {
+        const handle = await frame.evaluateHandle(() => {
+            let element = document.activeElement;
+            while (element?.shadowRoot?.activeElement) {
+                element = element.shadowRoot.activeElement;
+            }
+            // the body is focused when nothing else is, unless the whole document is editable
+            return element && (element !== document.body || document.body.isContentEditable) ? element : null;
+        });
+
+        const element = handle.asElement() as ElementHandle<Element> | null;
+        if (!element) {
+            await handle.dispose();
+            return null;
+        }
+        if (!await isFrameElement(element)) {
+            return element;
+        }
+
+        const contentFrame = await element.contentFrame();
+        await element.dispose();
+        if (!contentFrame) {
+            return null;
+        }
+        frame = contentFrame;
+    }
+}
+
+/**
+ * Finds the form control of the given kind an element belongs to: the element itself, the control
+ * of a label, an ancestor, or the only matching control inside the element
+ * @param element The located element
+ * @param kind Kind of the control
+ * @returns {Promise<ElementHandle<Element> | null>} The control, null if the element doesn't belong to one
+ */
+export async function findControl(element: ElementHandle<Element>, kind: ControlKind): Promise<ElementHandle<Element> | null> {
+    const handle = await element.evaluateHandle((element, kind) => {
+        const selectors: Record<string, string> = {
+            select: 'select',
+            checkable: 'input[type="checkbox"], input[type="radio"], [role="checkbox"], [role="radio"], [role="switch"]',
+            file: 'input[type="file"]',
+            text: 'input:not([type="checkbox"]):not([type="radio"]):not([type="file"]):not([type="hidden"]), textarea, [contenteditable=""], [contenteditable="true"]'
+        };
+        const selector = selectors[kind];
+
+        if (element.matches(selector)) {
+            return element;
+        }
+
+        // a label forwards to its control
+        const label = element.closest('label');
+        if (label?.control && label.control.matches(selector)) {
+            return label.control;
+        }
+
+        const ancestor = element.closest(selector);
+        if (ancestor) {
+            return ancestor;
+        }
+
+        // a custom widget wrapping a single control, e.g. a styled checkbox or an upload button
+        for (let container: Element | null = element; container && container !== document.body; container = container.parentElement) {
+            const controls = container.querySelectorAll(selector);
+            if (controls.length === 1) {
+                return controls[0];
+            }
+            if (controls.length > 1) {
+                break;
+            }
+        }
+
+        return null;
+    }, kind);
+
+    const control = handle.asElement() as ElementHandle<Element> | null;
+    if (!control) {
+        await handle.dispose();
+    }
+    return control;
+}
+
+/**
+ * Selects the option of a `<select>` element matching the given value or label
+ * @param select The select element
+ * @param value Value or visible label of the option, case insensitive
+ * @returns {Promise<void>}
+ * @throws {StepFailedError} If there is no such option
+ */
+export async function selectOption(select: ElementHandle<Element>, value: string): Promise<void> {
+    const optionValue = await select.evaluate((select, value) => {
+        const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+        const options = Array.from((select as HTMLSelectElement).options);
+        const option = options.find(option => option.value === value)
+            || options.find(option => normalize(option.label) === normalize(value))
+            || options.find(option => normalize(option.label).includes(normalize(value)));
+        return option ? option.value : null;
+    }, value);
+
+    if (optionValue === null) {
+        throw new StepFailedError(`No option "${value}" in the select element`);
+    }
+
+    await (select as ElementHandle<HTMLSelectElement>).select(optionValue);
+    Logger.debug(`Selected option: ${optionValue}`);
+}
+
+/**
+ * Reads whether a checkbox, radio button or switch is checked
+ * @param control The checkable control
+ * @returns {Promise<boolean>} Whether it is checked
+ */
+const isChecked = async (control: ElementHandle<Element>): Promise<boolean> => {
+    return await control.evaluate(control => control instanceof HTMLInputElement
+        ? control.checked
+        : control.getAttribute('aria-checked') === 'true');
+};
+
+/**
+ * Checks or unchecks a checkbox, radio button or switch, only clicking it if its state differs
+ * @param page Puppeteer Page object
+ * @param control The checkable control
+ * @param checked The expected state
+ * @param location Located point, clicked when the control itself can't be, e.g. a hidden input behind a styled box
+ * @returns {Promise<void>}
+ * @throws {StepFailedError} If the state couldn't be changed
+ */
+export async function setChecked(page: Page, control: ElementHandle<Element>, checked: boolean, location: { x: number; y: number }): Promise<void> {
+    if (await isChecked(control) === checked) {
+        Logger.debug(`Already ${checked ? 'checked' : 'unchecked'}`);
+        return;
+    }
+
+    try {
+        await control.click();
+    } catch (error) {
+        Logger.debug(`Control not clickable, clicking the located point: ${error}`);
+        await page.mouse.click(location.x, location.y);
+    }
+
+    if (await isChecked(control) !== checked) {
+        throw new StepFailedError(`Could not ${checked ? 'check' : 'uncheck'} the element`);
+    }
+}
+
+/**
+ * Uploads a file through the file input, or else through the file chooser opened by clicking the located point
+ * @param page Puppeteer Page object
+ * @param input The file input, if one was found
+ * @param filePath Absolute path of the file
+ * @param location Located point
+ * @returns {Promise<void>}
+ */
+export async function uploadFile(page: Page, input: ElementHandle<Element> | null, filePath: string, location: { x: number; y: number }): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`File to upload not found: ${filePath}`);
+    }
+
+    if (input) {
+        await (input as ElementHandle<HTMLInputElement>).uploadFile(filePath);
+    } else {
+        const [fileChooser] = await Promise.all([
+            page.waitForFileChooser({ timeout: 5000 }),
+            page.mouse.click(location.x, location.y)
+        ]);
+        await fileChooser.accept([filePath]);
+    }
+    Logger.debug(`Uploaded ${filePath}`);
+}
+
+/**
+ * Clears a text field, through the keyboard so the page gets its input events
+ * @param page Puppeteer Page object
+ * @param field The text field
+ * @returns {Promise<void>}
+ */
+export async function clearField(page: Page, field: ElementHandle<Element>): Promise<void> {
+    await field.evaluate(field => {
+        (field as HTMLElement).focus();
+        if (field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement) {
+            field.select();
+        } else {
+            const range = document.createRange();
+            range.selectNodeContents(field);
+            const selection = window.getSelection();
+            selection?.removeAllRanges();
+            selection?.addRange(range);
+        }
+    });
+    await page.keyboard.press('Backspace');
+}
@@ -0,0 +1,176 @@
+import { KeyInput, Page } from 'puppeteer';
+import { Logger } from './logger';
+import { waitForStable } from './stability';
+
+/**
+ * Names the LLM tends to use for keys, mapped to the names Puppeteer knows
+ */
+const KEY_ALIASES: Record<string, KeyInput> = {
+    ctrl: 'Control',
+    control: 'Control',
+    cmd: 'Meta',
+    command: 'Meta',
+    meta: 'Meta',
+    alt: 'Alt',
+    option: 'Alt',
+    shift: 'Shift',
+    esc: 'Escape',
+    return: 'Enter',
+    del: 'Delete',
+    space: ' ',
+    up: 'ArrowUp',
+    down: 'ArrowDown',
+    left: 'ArrowLeft',
+    right: 'ArrowRight'
+};
+
+/**
+ * Most attempts at bringing a text into view, each one scrolls by a viewport so lazily loaded content can appear
+ */
+const MAX_SCROLL_ATTEMPTS = 10;
+
+/**
+ * Splits a shortcut such as `Control+Shift+K` into its keys
+ * @param shortcut Key or shortcut
+ * @returns {KeyInput[]} The keys, modifiers first
+ */
+const parseShortcut = (shortcut: string): KeyInput[] => {
+    // a trailing empty part means the shortcut ends with the plus key itself, e.g. `Control++`
+    const parts = shortcut.trim().split('+').map(part => part.trim());
+    if (parts.length > 1 && parts[parts.length - 1] === '') {
+        parts.splice(parts.length - 2, 2, '+');
+    }
+
+    return parts.filter(part => part !== '').map(part => KEY_ALIASES[part.toLowerCase()] ?? part as KeyInput);
+};
+
+/**
+ * Presses a key or a shortcut on the focused element, holding the modifiers down while the last key is pressed
+ * @param page Puppeteer Page object
+ * @param shortcut Key or shortcut, e.g. `Enter` or `Control+A`
+ * @returns {Promise<void>}
+ */
+export async function pressShortcut(page: Page, shortcut: string): Promise<void> {
+    const keys = parseShortcut(shortcut);
+    const modifiers = keys.slice(0, -1);
+    const key = keys[keys.length - 1];
+
+    for (const modifier of modifiers) {
+        await page.keyboard.down(modifier);
+    }
+    try {
+        await page.keyboard.press(key);
+    } finally {
+        for (const modifier of modifiers.reverse()) {
+            await page.keyboard.up(modifier);
+        }
+    }
+    Logger.debug(`Pressed ${keys.join('+')}`);
+}
+
+/**
+ * Scrolls the page, or the scrollable element under the given point, by a distance
+ * @param page Puppeteer Page object
+ * @param direction Scroll direction
+ * @param amount Distance in pixels, defaults to 80% of the viewport
+ * @param location Point over the element to scroll, the page is scrolled if there is none
+ * @returns {Promise<void>}
+ */
+export async function scrollBy(
+    page: Page,
+    direction: 'up' | 'down' | 'left' | 'right',
+    amount: number | undefined,
+    location: { x: number; y: number } | null
+): Promise<void> {
+    const viewport = await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight }));
+    const horizontal = direction === 'left' || direction === 'right';
+    const distance = (amount ?? Math.round((horizontal ? viewport.width : viewport.height) * 0.8))
+        * (direction === 'up' || direction === 'left' ? -1 : 1);
+
+    if (location) {
+        // the wheel scrolls the innermost scrollable element under the mouse
+        await page.mouse.move(location.x, location.y);
+        await page.mouse.wheel(horizontal ? { deltaX: distance } : { deltaY: distance });
+    } else {
+        await page.evaluate((deltaX, deltaY) => window.scrollBy(deltaX, deltaY), horizontal ? distance : 0, horizontal ? 0 : distance);
+    }
+    Logger.debug(`Scrolled ${direction} by ${Math.abs(distance)}px`);
+}
+
+/**
+ * Scrolls until an element containing the given text is in view, scrolling further down the page, or
+ * down the scrollable element under the given point, while the text isn't found yet
+ * @param page Puppeteer Page object
+ * @param text Text to bring into view, case insensitive
+ * @param location Point over the element to search in, the whole page is searched if there is none
+ * @returns {Promise<boolean>} Whether the text was found
+ */
+export async function scrollToText(page: Page, text: string, location: { x: number; y: number } | null): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_SCROLL_ATTEMPTS; attempt++) {
+        const found = await page.evaluate((text, location) => {
+            const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+            // the scrollable element under the point is searched, e.g. a list with its own scrollbar
+            let root: Element = document.body;
+            for (let element = location ? document.elementFromPoint(location.x, location.y) : null; element; element = element.parentElement) {
+                const overflow = getComputedStyle(element).overflowY;
+                if ((overflow === 'auto' || overflow === 'scroll') && element.scrollHeight > element.clientHeight) {
+                    root = element;
+                    break;
+                }
+            }
+
+            // the innermost element of the first match whose rendered text contains the text
+            let match: HTMLElement | null = null;
+            const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+            for (let node: Node | null = root; node; node = walker.nextNode()) {
+                const element = node as HTMLElement;
+                if (match && !match.contains(element)) {
+                    break;
+                }
+                // the raw text is cheaper to check than the rendered one
+                if (normalize(element.textContent || '').includes(normalize(text))
+                    && element.getClientRects().length > 0
+                    && normalize(element.innerText || '').includes(normalize(text))) {
+                    match = element;
+                }
+            }
+            match?.scrollIntoView({ block: 'center', inline: 'nearest' });
+            return match !== null;
+        }, text, location);
+
+        if (found) {
+            Logger.debug(`Scrolled "${text}" into view`);
+            return true;
+        }
+
+        // the text may only be loaded once the end of the page or of the list is reached
+        const before = await page.evaluate(() => window.scrollY);
+        await scrollBy(page, 'down', undefined, location);
+        await waitForStable(page);
+        if (!location && await page.evaluate(() => window.scrollY) === before) {
+            break;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Drags from one point to another with the mouse, moving in small steps so the page gets its
+ * drag events, both native and pointer based
+ * @param page Puppeteer Page object
+ * @param source Viewport position the drag starts from
+ * @param target Viewport position the drag ends at
+ * @returns {Promise<void>}
+ */
+export async function dragAndDrop(page: Page, source: { x: number; y: number }, target: { x: number; y: number }): Promise<void> {
+    await page.mouse.move(source.x, source.y);
+    await page.mouse.down();
+    // a first small move starts the drag, most libraries wait for a few pixels of movement
+    await page.mouse.move(source.x + 5, source.y + 5, { steps: 5 });
+    await page.mouse.move(target.x, target.y, { steps: 20 });
+    // the drop zone may need to react to the drag, e.g. highlight itself, before it accepts the drop
+    await waitForStable(page);
+    await page.mouse.up();
+    Logger.debug(`Dragged from ${source.x}, ${source.y} to ${target.x}, ${target.y}`);
+}
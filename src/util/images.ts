@@ -0,0 +1,203 @@
+import sharp from 'sharp';
+
+/**
+ * Computes a perceptual difference hash (dHash) of an image
+ * @param base64String Base64 encoded image
+ * @param hashSize Width and height of the hash grid, the hash has hashSize * hashSize bits
+ * @returns {Promise<string>} Hex encoded hash
+ */
+export const perceptualHash = async (base64String: string, hashSize: number = 16): Promise<string> => {
+    // shrink to a (hashSize + 1) x hashSize grayscale grid, ignoring the aspect ratio
+    const pixels = await sharp(Buffer.from(base64String, 'base64'))
+        .grayscale()
+        .resize(hashSize + 1, hashSize, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    // each bit tells whether a pixel is brighter than its right neighbour
+    let hash = '';
+    let nibble = 0;
+    let bitCount = 0;
+    for (let y = 0; y < hashSize; y++) {
+        for (let x = 0; x < hashSize; x++) {
+            const left = pixels[y * (hashSize + 1) + x];
+            const right = pixels[y * (hashSize + 1) + x + 1];
+            nibble = (nibble << 1) | (left > right ? 1 : 0);
+            bitCount++;
+
+            if (bitCount % 4 === 0) {
+                hash += nibble.toString(16);
+                nibble = 0;
+            }
+        }
+    }
+
+    return hash;
+};
+
+/**
+ * Compares two perceptual hashes of the same size
+ * @param hashA Hex encoded hash
+ * @param hashB Hex encoded hash
+ * @returns {number} Similarity between 0 (every bit differs) and 1 (identical)
+ */
+export const hashSimilarity = (hashA: string, hashB: string): number => {
+    if (hashA.length !== hashB.length || hashA.length === 0) {
+        return 0;
+    }
+
+    let distance = 0;
+    for (let i = 0; i < hashA.length; i++) {
+        let diff = parseInt(hashA[i], 16) ^ parseInt(hashB[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+
+    return 1 - distance / (hashA.length * 4);
+};
+
+/**
+ * Reads the dimensions of an image
+ * @param base64String Base64 encoded image
+ * @returns {Promise<{ width: number; height: number }>} Image width and height in pixels
+ */
+export const getImageSize = async (base64String: string): Promise<{ width: number; height: number }> => {
+    const metadata = await sharp(Buffer.from(base64String, 'base64')).metadata();
+    if (!metadata.width || !metadata.height) {
+        throw new Error('Could not get image dimensions');
+    }
+
+    return { width: metadata.width, height: metadata.height };
+};
+
+/**
+ * Scales an image down to the given width, keeping its aspect ratio
+ * @param base64String Base64 encoded image
+ * @param width Width of the scaled image in pixels, images already narrower are kept as is
+ * @returns {Promise<string>} Base64 encoded PNG image
+ */
+export const resizeImage = async (base64String: string, width: number): Promise<string> => {
+    const buffer = await sharp(Buffer.from(base64String, 'base64'))
+        .resize({ width, withoutEnlargement: true })
+        .png()
+        .toBuffer();
+
+    return buffer.toString('base64');
+};
+
+/**
+ * Crops a region of an image, upscales it and draws a labeled grid and a crosshair on it
+ * @param base64String Base64 encoded image
+ * @param region Region to crop, in pixels of the image
+ * @param scale Upscaling factor
+ * @param gridStep Distance between grid lines, in pixels of the zoomed image
+ * @param point Position of the crosshair, in pixels of the zoomed image
+ * @returns {Promise<string>} Base64 encoded PNG image of the zoomed region
+ */
+export const zoomWithGrid = async (
+    base64String: string,
+    region: { left: number; top: number; width: number; height: number },
+    scale: number,
+    gridStep: number,
+    point: { x: number; y: number }
+): Promise<string> => {
+    const width = Math.round(region.width * scale);
+    const height = Math.round(region.height * scale);
+
+    // grid lines with their coordinate along the top and left edges
+    const lines: string[] = [];
+    for (let x = gridStep; x < width; x += gridStep) {
+        lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${height}" stroke="#00a0ff" stroke-opacity="0.6" stroke-width="1"/>`);
+        lines.push(`<text x="${x + 2}" y="12" font-family="monospace" font-size="11" fill="#0050a0">${x}</text>`);
+    }
+    for (let y = gridStep; y < height; y += gridStep) {
+        lines.push(`<line x1="0" y1="${y}" x2="${width}" y2="${y}" stroke="#00a0ff" stroke-opacity="0.6" stroke-width="1"/>`);
+        lines.push(`<text x="2" y="${y - 2}" font-family="monospace" font-size="11" fill="#0050a0">${y}</text>`);
+    }
+    lines.push(`<line x1="${point.x}" y1="0" x2="${point.x}" y2="${height}" stroke="red" stroke-width="1"/>`);
+    lines.push(`<line x1="0" y1="${point.y}" x2="${width}" y2="${point.y}" stroke="red" stroke-width="1"/>`);
+    lines.push(`<circle cx="${point.x}" cy="${point.y}" r="6" fill="none" stroke="red" stroke-width="2"/>`);
+    const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${lines.join('')}</svg>`;
+
+    const buffer = await sharp(Buffer.from(base64String, 'base64'))
+        .extract(region)
+        .resize(width, height)
+        .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+
+    return buffer.toString('base64');
+};
+
+/**
+ * Media types of the images sent to the LLM
+ */
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif';
+
+/**
+ * Detects the media type of an image from its magic bytes
+ * @param base64String Base64 encoded image
+ * @returns {ImageMediaType} The media type, PNG if the format isn't recognized
+ */
+export const detectMediaType = (base64String: string): ImageMediaType => {
+    const header = Buffer.from(base64String.slice(0, 24), 'base64');
+
+    if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (header.toString('ascii', 0, 3) === 'GIF') {
+        return 'image/gif';
+    }
+    return 'image/png';
+};
+
+/**
+ * How the images are encoded before they are sent to the LLM
+ */
+export interface ImageEncoding {
+    format: 'png' | 'jpeg' | 'webp';
+    /** Quality of the lossy formats, from 1 to 100 */
+    quality: number;
+    /** Maximum width and height in pixels, 0 to keep the original size */
+    maxEdge: number;
+    grayscale: boolean;
+}
+
+/**
+ * Re-encodes an image to be sent to the LLM
+ * @param base64String Base64 encoded PNG image
+ * @param encoding Encoding settings
+ * @returns {Promise<{ base64String: string; width: number; height: number; scale: number }>} The encoded image, its size
+ * and the factor from the original pixels to the encoded pixels
+ */
+export const encodeImage = async (
+    base64String: string,
+    encoding: ImageEncoding
+): Promise<{ base64String: string; width: number; height: number; scale: number }> => {
+    const size = await getImageSize(base64String);
+    if (encoding.format === 'png' && !encoding.grayscale && (!encoding.maxEdge || Math.max(size.width, size.height) <= encoding.maxEdge)) {
+        return { base64String, ...size, scale: 1 };
+    }
+
+    let image = sharp(Buffer.from(base64String, 'base64'));
+    if (encoding.maxEdge) {
+        image = image.resize({ width: encoding.maxEdge, height: encoding.maxEdge, fit: 'inside', withoutEnlargement: true });
+    }
+    if (encoding.grayscale) {
+        image = image.grayscale();
+    }
+    image = encoding.format === 'png' ? image.png() : image.toFormat(encoding.format, { quality: encoding.quality });
+
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+    return {
+        base64String: data.toString('base64'),
+        width: info.width,
+        height: info.height,
+        scale: info.width / size.width
+    };
+};
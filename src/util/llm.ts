@@ -1,33 +1,25 @@
 const fs = require('fs');
 const path = require('path');
-import Anthropic from '@anthropic-ai/sdk';
+const crypto = require('crypto');
 import config from 'config';
 import { Logger } from './logger';
+import { perceptualHash, hashSimilarity } from './images';
+import { Variables } from './variables';
+import { LLMProvider, createProvider } from './providers';
 
 export class LLM {
     private static instance: LLM;
-    private anthropic: Anthropic;
-    private config: {
-        apiKey: string;
-        model: string;
-        temperature: number;
-        maxTokens: number;
-        topP: number;
-        topK: number;
-        frequencyPenalty: number;
-        presencePenalty: number;
-    };
+    private provider: LLMProvider;
     private cache: {
         enabled: boolean;
         path: string;
+        similarity: number;
+        ttl: number;
     };
 
     private constructor() {
-        this.config = config.get('claude');
         this.cache = config.get('llm.cache');
-        this.anthropic = new Anthropic({
-            apiKey: this.config.apiKey,
-        });
+        this.provider = createProvider(config.get<string>('llm.provider'));
     }
 
     public static getInstance(): LLM {
@@ -37,129 +29,150 @@ export class LLM {
         return LLM.instance;
     }
 
-    public static async writeLLMCache(prompt: string, llmResponse: string): Promise<string | null> {
-        if (!LLM.getInstance().cache.enabled) {
+    /**
+     * Computes the part of the cache key that must match exactly: provider, model and prompt
+     * @param prompt The rendered prompt
+     * @returns {string} MD5 hash of the key
+     */
+    private static getPromptKey(prompt: string): string {
+        const instance = LLM.getInstance();
+        return crypto.createHash('md5')
+            .update(JSON.stringify([instance.provider.name, instance.provider.model, prompt]))
+            .digest('hex');
+    }
+
+    public static async writeLLMCache(prompt: string, imageHashes: string[], llmResponse: string): Promise<string | null> {
+        const instance = LLM.getInstance();
+        if (!instance.cache.enabled) {
             return null;
         }
 
-        const fs = require('fs');
-        const crypto = require('crypto');
-        const path = require('path');
-
         // Create cache directory if it doesn't exist
-        const cacheDir = 'llm_cache';
+        const cacheDir = instance.cache.path;
         if (!fs.existsSync(cacheDir)) {
-            fs.mkdirSync(cacheDir);
+            fs.mkdirSync(cacheDir, { recursive: true });
         }
 
-        // Generate MD5 hash of prompt
-        const md5Hash = crypto.createHash('md5').update(prompt).digest('hex');
+        // Cache entries are named after the prompt key and the perceptual hashes of the images
+        const imagesHash = crypto.createHash('md5').update(imageHashes.join(',')).digest('hex');
+        const cacheHash = `${LLM.getPromptKey(prompt)}-${imagesHash}`;
         
         // Create cache content
         const cacheContent = {
+            provider: instance.provider.name,
+            model: instance.provider.model,
             prompt: prompt,
+            imageHashes: imageHashes,
+            timestamp: Date.now(),
             llmResponse: llmResponse
         };
 
         // Write to cache file
-        const cacheFile = path.join(cacheDir, `${md5Hash}.txt`);
+        const cacheFile = path.join(cacheDir, `${cacheHash}.txt`);
         await fs.promises.writeFile(
             cacheFile,
             JSON.stringify(cacheContent, null, 4),
             'utf8'
         );
 
-        return md5Hash;
+        return cacheHash;
     }
 
-    public static async readLLMCache(prompt: string): Promise<[string | null, string | null]> {
-        if (!LLM.getInstance().cache.enabled) {
+    public static async readLLMCache(prompt: string, imageHashes: string[]): Promise<[string | null, string | null]> {
+        const instance = LLM.getInstance();
+        if (!instance.cache.enabled) {
+            return [null, null];
+        }
+
+        const cacheDir = instance.cache.path;
+        if (!fs.existsSync(cacheDir)) {
             return [null, null];
         }
 
-        const fs = require('fs');
-        const crypto = require('crypto');
-        const path = require('path');
+        // Every entry of the same provider, model and prompt is a candidate
+        const promptKey = LLM.getPromptKey(prompt);
+        const candidates = (await fs.promises.readdir(cacheDir) as string[])
+            .filter(file => file.startsWith(`${promptKey}-`) && file.endsWith('.txt'));
+
+        let bestMatch: { llmResponse: string; cacheHash: string; similarity: number } | null = null;
+        for (const candidate of candidates) {
+            const cacheFile = path.join(cacheDir, candidate);
+            const cacheHash = candidate.slice(0, -'.txt'.length);
+
+            try {
+                // Read and parse cache file
+                const cacheContent = JSON.parse(
+                    await fs.promises.readFile(cacheFile, 'utf8')
+                );
+
+                // Drop expired entries
+                if (instance.cache.ttl > 0 && Date.now() - cacheContent.timestamp > instance.cache.ttl * 1000) {
+                    LLM.removeCache(cacheHash);
+                    continue;
+                }
 
-        // Generate MD5 hash of prompt (same as in write)
-        const md5Hash = crypto.createHash('md5').update(prompt).digest('hex');
-        
-        // Construct cache file path
-        const cacheDir = 'llm_cache';
-        const cacheFile = path.join(cacheDir, `${md5Hash}.txt`);
-
-        try {
-            // Check if cache file exists
-            if (!fs.existsSync(cacheFile)) {
-                return [null, null];
-            }
+                // The least similar image decides whether the entry matches
+                const cachedHashes: string[] = cacheContent.imageHashes || [];
+                if (cachedHashes.length !== imageHashes.length) {
+                    continue;
+                }
+                const similarity = imageHashes.reduce(
+                    (min, hash, index) => Math.min(min, hashSimilarity(hash, cachedHashes[index])),
+                    1
+                );
 
-            // Read and parse cache file
-            const cacheContent = JSON.parse(
-                await fs.promises.readFile(cacheFile, 'utf8')
-            );
+                if (similarity >= instance.cache.similarity && (!bestMatch || similarity > bestMatch.similarity)) {
+                    bestMatch = { llmResponse: cacheContent.llmResponse, cacheHash, similarity };
+                }
+            } catch (error) {
+                Logger.debug(`Error reading LLM cache: ${error}`);
+            }
+        }
 
-            return [cacheContent.llmResponse, md5Hash];
-        } catch (error) {
-            Logger.debug(`Error reading LLM cache: ${error}`);
+        if (!bestMatch) {
             return [null, null];
         }
+
+        Logger.debug(`LLM cache image similarity: ${bestMatch.similarity.toFixed(3)}`);
+        return [bestMatch.llmResponse, bestMatch.cacheHash];
     }
 
     public static async invoke(prompt: string, limitedBase64Strings: string[]): Promise<[string, string | null]> {
-        // try to read the cache
-        const [cachedResponse, cacheHash] = await LLM.readLLMCache(prompt);
+        // try to read the cache, keyed by the prompt and the perceptual hashes of the images
+        const instance = LLM.getInstance();
+        const imageHashes = instance.cache.enabled
+            ? await Promise.all(limitedBase64Strings.map(base64String => perceptualHash(base64String)))
+            : [];
+        const [cachedResponse, cacheHash] = await LLM.readLLMCache(prompt, imageHashes);
         if (cachedResponse) {
             Logger.debug(`LLM cache hit for prompt: ${cacheHash}::${prompt.substring(0, 128)}`);
             return [cachedResponse, cacheHash];
         }
 
-        // call the LLM
-        const instance = LLM.getInstance();
-        
-        const message = await instance.anthropic.messages.create({
-            model: instance.config.model,
-            max_tokens: instance.config.maxTokens,
-            temperature: instance.config.temperature,
-            messages: [
-                {
-                    role: 'user',
-                    content: [
-                        {
-                            type: 'text',
-                            text: prompt
-                        },
-                        ...limitedBase64Strings.map(base64String => ({
-                            type: 'image' as const,
-                            source: {
-                                type: 'base64' as const,
-                                media_type: 'image/png' as const,
-                                data: base64String
-                            }
-                        }))
-                    ]
-                }
-            ]
+        // call the LLM through the configured provider
+        const llmResponse = await instance.provider.complete({
+            prompt: prompt,
+            images: limitedBase64Strings
         });
-
-        const llmResponse = (message.content[0] as { text: string }).text;
-        Logger.debug(`LLM response: ${llmResponse}`);
+        Logger.debug(`LLM response (${instance.provider.name}/${instance.provider.model}): ${llmResponse}`);
 
         // write the cache
-        const md5Hash = await LLM.writeLLMCache(prompt, llmResponse);
+        const md5Hash = await LLM.writeLLMCache(prompt, imageHashes, llmResponse);
         Logger.debug(`LLM cache written for prompt: ${md5Hash}::${prompt.substring(0, 128)}`);
 
         return [llmResponse, md5Hash];
     }
 
-    public static applyTemplate(prompt: string,): string {
-        const now = new Date();
+    public static applyTemplate(prompt: string, variables?: Variables, now: Date = new Date()): string {
         const date = now.toISOString().split('T')[0]; // YYYY-MM-DD
         const time = now.toTimeString().split(' ')[0]; // HH:MM:SS
 
-        return prompt
+        const applied = prompt
             .replace(/{date}/g, date)
             .replace(/{time}/g, time);
+
+        // {env.NAME} and {var.name} placeholders, {secret.NAME} placeholders are never sent to the LLM
+        return variables ? variables.resolve(applied) : applied;
     }
 
     public static removeCache(cacheHash: string): void {
@@ -171,4 +184,16 @@ export class LLM {
             Logger.debug(`Cache file deleted: ${cacheFile}`);
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Removes every cached LLM response
+     */
+    public static clearCache(): void {
+        const cacheDir = config.get<string>('llm.cache.path');
+
+        if (fs.existsSync(cacheDir)) {
+            fs.rmSync(cacheDir, { recursive: true, force: true });
+            Logger.info(`LLM cache cleared: ${cacheDir}`);
+        }
+    }
+}
@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import path from 'path';
+import config from 'config';
+import { Page } from 'puppeteer';
+import { Action } from './actions';
+import { Logger } from './logger';
+import { LLM } from './llm';
+
+/**
+ * Describes the element an action was performed on, robust enough to find it again
+ */
+export interface ElementFingerprint {
+    /** CSS selector of the element */
+    selector: string;
+    /** Positional XPath of the element, used when the CSS selector doesn't resolve */
+    xpath: string;
+    /** Lower case tag name */
+    tagName: string;
+    /** Normalized visible text, placeholder or ARIA label of the element, at most 100 characters */
+    text: string;
+}
+
+/**
+ * The action resolved for a script line
+ */
+export interface LockEntry {
+    /** The script line, with its variables applied, `{date}` and `{time}` kept as is, see `Lockfile.key` */
+    command: string;
+    action: Action;
+    /** The element the action was performed on, if any */
+    element?: ElementFingerprint;
+    recordedAt: string;
+}
+
+export type LockfileMode = 'off' | 'record' | 'replay';
+
+/**
+ * Fields locating the target with the LLM's coordinates or tag, the element is located by its fingerprint on replay
+ */
+const LOCATING_FIELDS = ['target_id', 'target_image', 'location_x', 'location_y'] as const;
+
+/**
+ * Omits keys from each member of a union
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Copies an object without the given keys
+ * @param object The object
+ * @param keys Keys to leave out
+ * @returns {DistributiveOmit<T, K>} The copy
+ */
+const omit = <T extends object, K extends PropertyKey>(object: T, keys: readonly K[]): DistributiveOmit<T, K> => {
+    const omitted: readonly PropertyKey[] = keys;
+    return Object.fromEntries(Object.entries(object).filter(([key]) => !omitted.includes(key))) as DistributiveOmit<T, K>;
+};
+
+/**
+ * Actions that can be executed straight from the lockfile, the others always need the LLM
+ */
+const REPLAYABLE_ACTIONS: Action['action'][] = ['navigate', 'click', 'type', 'select', 'check', 'uncheck', 'upload', 'clear', 'hover'];
+
+/**
+ * Record of the actions resolved for each line of a script, stored next to the script
+ * in `<script name>.webcopilot.lock.json`
+ */
+export class Lockfile {
+    public readonly mode: LockfileMode;
+    public readonly filePath: string;
+    private entries: Record<string, LockEntry>;
+    private pendingElement: ElementFingerprint | undefined;
+    /** Number of times each script line was executed so far */
+    private readonly occurrences: Map<string, number>;
+
+    constructor(scriptPath: string) {
+        this.mode = config.get<LockfileMode>('lockfile.mode');
+
+        const parsed = path.parse(scriptPath);
+        this.filePath = path.join(parsed.dir, `${parsed.name}.webcopilot.lock.json`);
+
+        this.occurrences = new Map();
+        this.entries = {};
+        if (this.mode !== 'off' && fs.existsSync(this.filePath)) {
+            this.entries = JSON.parse(fs.readFileSync(this.filePath, 'utf8')).entries || {};
+        }
+    }
+
+    /**
+     * Whether the resolved actions are written to the lockfile
+     */
+    public get recording(): boolean {
+        return this.mode !== 'off';
+    }
+
+    /**
+     * Whether the actions are executed from the lockfile
+     */
+    public get replaying(): boolean {
+        return this.mode === 'replay';
+    }
+
+    /**
+     * Gets the key of the next execution of a script line, identical lines of a script, e.g. two `click Next`
+     * on different pages, get their own entries. Called once per step.
+     * @param command The script line, with its variables applied
+     * @returns {string} The line, followed by its occurrence number from the second one on, e.g. `click Next #2`
+     */
+    public key(command: string): string {
+        const occurrence = (this.occurrences.get(command) ?? 0) + 1;
+        this.occurrences.set(command, occurrence);
+        return occurrence === 1 ? command : `${command} #${occurrence}`;
+    }
+
+    /**
+     * Gets the entry of a script line
+     * @param command Key of the script line, see `key`
+     * @returns {LockEntry | undefined} The entry, if any
+     */
+    public get(command: string): LockEntry | undefined {
+        return this.entries[command];
+    }
+
+    /**
+     * Remembers the element the next recorded action is performed on
+     * @param element Fingerprint of the element
+     */
+    public captureElement(element: ElementFingerprint | undefined): void {
+        this.pendingElement = element;
+    }
+
+    /**
+     * Writes the action resolved for a script line to the lockfile
+     * @param command Key of the script line, see `key`
+     * @param action The executed action
+     * @param appliedAt When the `{date}` and `{time}` placeholders of the line were applied
+     */
+    public record(command: string, action: Action, appliedAt: Date): void {
+        const element = this.pendingElement;
+        this.pendingElement = undefined;
+
+        if (!this.recording || !REPLAYABLE_ACTIONS.includes(action.action)) {
+            return;
+        }
+        if (action.action !== 'navigate' && !element) {
+            Logger.debug(`No element found to record for: ${command}`);
+            return;
+        }
+
+        // the element is located by its selector on replay, not by the LLM's coordinates or tag
+        const replayableAction = omit(action, LOCATING_FIELDS);
+        // a value typed from {date} or {time} is stored as the placeholder, the replay types the current one
+        if ('value' in replayableAction && typeof replayableAction.value === 'string') {
+            for (const placeholder of ['{date}', '{time}'].filter(placeholder => command.includes(placeholder))) {
+                replayableAction.value = replayableAction.value.split(LLM.applyTemplate(placeholder, undefined, appliedAt)).join(placeholder);
+            }
+        }
+        this.entries[command] = {
+            command,
+            action: replayableAction,
+            element: action.action === 'navigate' ? undefined : element,
+            recordedAt: new Date().toISOString()
+        };
+
+        fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, entries: this.entries }, null, 4), 'utf8');
+        Logger.debug(`Lockfile entry written: ${command}`);
+    }
+}
+
+/**
+ * Computes the fingerprint of the element at the given viewport position
+ * @param page Puppeteer Page object
+ * @param x Horizontal viewport position
+ * @param y Vertical viewport position
+ * @returns {Promise<ElementFingerprint | undefined>} The fingerprint, undefined if there is no element
+ */
+export async function fingerprintElementAt(page: Page, x: number, y: number): Promise<ElementFingerprint | undefined> {
+    const fingerprint = await page.evaluate((x, y) => {
+        let element = document.elementFromPoint(x, y);
+        // the elements inside frames aren't fingerprinted, their lines are resolved by the LLM again
+        if (!element || element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+            return null;
+        }
+
+        // prefer the interactive element containing the point over a nested span or icon
+        element = element.closest('a, button, input, select, textarea, label, [role], [onclick], [contenteditable]') || element;
+
+        const cssSelector = (target: Element): string => {
+            const parts: string[] = [];
+            for (let current: Element | null = target; current && current !== document.documentElement; current = current.parentElement) {
+                if (current.id && document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+                    parts.unshift(`#${CSS.escape(current.id)}`);
+                    break;
+                }
+
+                let part = current.tagName.toLowerCase();
+                for (const attribute of ['data-testid', 'data-test', 'name']) {
+                    const value = current.getAttribute(attribute);
+                    if (value) {
+                        part += `[${attribute}="${CSS.escape(value)}"]`;
+                        break;
+                    }
+                }
+
+                const parent = current.parentElement;
+                if (parent) {
+                    const sameTag = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+                    if (sameTag.length > 1) {
+                        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+                    }
+                }
+                parts.unshift(part);
+            }
+            return parts.join(' > ');
+        };
+
+        const xpath = (target: Element): string => {
+            const parts: string[] = [];
+            for (let current: Element | null = target; current; current = current.parentElement) {
+                const sameTag = current.parentElement
+                    ? Array.from(current.parentElement.children).filter(child => child.tagName === current!.tagName)
+                    : [current];
+                parts.unshift(`${current.tagName.toLowerCase()}[${sameTag.indexOf(current) + 1}]`);
+            }
+            return `/${parts.join('/')}`;
+        };
+
+        const input = element as HTMLInputElement;
+        const text = ((element as HTMLElement).innerText || input.placeholder || element.getAttribute('aria-label') || '')
+            .replace(/\s+/g, ' ')
+            .trim()
+            .slice(0, 100);
+
+        return {
+            selector: cssSelector(element),
+            xpath: xpath(element),
+            tagName: element.tagName.toLowerCase(),
+            text
+        };
+    }, x, y);
+
+    return fingerprint || undefined;
+}
+
+/**
+ * Finds the recorded element again and checks its fingerprint
+ * @param page Puppeteer Page object
+ * @param element Fingerprint of the recorded element
+ * @returns {Promise<{ x: number; y: number } | null>} Viewport position of the element's center, null if it can't be found or doesn't match
+ */
+export async function locateFingerprintedElement(page: Page, element: ElementFingerprint): Promise<{ x: number; y: number } | null> {
+    return await page.evaluate((fingerprint) => {
+        let target: Element | null = null;
+        try {
+            target = document.querySelector(fingerprint.selector);
+        } catch {
+            // invalid selector, try the XPath
+        }
+        if (!target) {
+            target = document.evaluate(fingerprint.xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null)
+                .singleNodeValue as Element | null;
+        }
+        if (!target || target.tagName.toLowerCase() !== fingerprint.tagName) {
+            return null;
+        }
+
+        const input = target as HTMLInputElement;
+        const text = ((target as HTMLElement).innerText || input.placeholder || target.getAttribute('aria-label') || '')
+            .replace(/\s+/g, ' ')
+            .trim()
+            .slice(0, 100);
+        if (text !== fingerprint.text) {
+            return null;
+        }
+
+        target.scrollIntoView({ block: 'center', inline: 'center' });
+        const rect = target.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) {
+            return null;
+        }
+
+        return {
+            x: Math.floor(rect.left + rect.width / 2),
+            y: Math.floor(rect.top + rect.height / 2)
+        };
+    }, element);
+}
@@ -40,8 +40,30 @@ function markdownToAnsi(text: string): string {
 }
 
 
+/**
+ * Shortest secret masked, a shorter one would mask parts of every message
+ */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Gets the forms a secret takes in the text leaving the process: as is, URL-encoded, form-encoded and JSON-escaped
+ * @param secret The secret value
+ * @returns {string[]} The variants of the secret
+ */
+function secretVariants(secret: string): string[] {
+    return [
+        secret,
+        encodeURIComponent(secret),
+        new URLSearchParams({ s: secret }).toString().slice(2),
+        JSON.stringify(secret).slice(1, -1)
+    ];
+}
+
 export class Logger {
     private static instance: Logger;
+    private static secrets: Set<string> = new Set();
+    /** Secrets too short to be masked, warned about once */
+    private static shortSecrets: Set<string> = new Set();
 
     private constructor() { }
 
@@ -68,7 +90,39 @@ export class Logger {
         Logger.log(`**${message}**`, LogLevel.ERROR);
     }
 
+    /**
+     * Registers a secret value to be masked in every log message
+     * @param secret The secret value
+     */
+    public static addSecret(secret: string): void {
+        if (!secret) {
+            return;
+        }
+        if (secret.length < MIN_SECRET_LENGTH) {
+            if (!Logger.shortSecrets.has(secret)) {
+                Logger.shortSecrets.add(secret);
+                Logger.warn(`A secret shorter than ${MIN_SECRET_LENGTH} characters isn't masked, it would mask parts of every message`);
+            }
+            return;
+        }
+        Logger.secrets.add(secret);
+    }
+
+    /**
+     * Masks the registered secret values, URL-encoded, form-encoded or JSON-escaped as well, longest
+     * first so overlapping secrets are fully masked
+     * @param message Log message, or any text leaving the process
+     * @returns {string} Log message without secrets
+     */
+    public static maskSecrets(message: string): string {
+        return [...new Set([...Logger.secrets].flatMap(secretVariants))]
+            .sort((a, b) => b.length - a.length)
+            .reduce((masked, secret) => masked.split(secret).join('****'), message);
+    }
+
     public static log(message: string, level: LogLevel = LogLevel.INFO): void {
+        message = Logger.maskSecrets(message);
+
         // Get current timestamp in required format
         const now = new Date();
         const timestamp = now.toISOString()
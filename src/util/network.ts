@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import path from 'path';
+import config from 'config';
+import { HTTPRequest, HTTPResponse, Page, Protocol } from 'puppeteer';
+import { Logger } from './logger';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+import { FETCH_RESOURCE_TYPES } from './requests';
+import { compileUrlGlob } from './routes';
+
+/**
+ * Network capture settings
+ */
+interface CaptureConfig {
+    /** Whether the bodies of the XHR and fetch requests and responses are kept */
+    bodies: boolean;
+    /** Largest body kept, in bytes, larger ones are left out */
+    maxBodySize: number;
+    /** Whether the capture is written to the run's artifacts as `network.har` */
+    har: boolean;
+    /** How long a network expectation waits for a matching response, in milliseconds */
+    timeout: number;
+}
+
+/**
+ * A request sent by a page during the run, and its response
+ */
+export interface NetworkEntry {
+    method: string;
+    url: string;
+    resourceType: string;
+    /** 1-based step during which the request was sent */
+    step: number;
+    startTime: number;
+    /** When the response was received or the request failed, undefined while pending */
+    endTime?: number;
+    requestHeaders: Record<string, string>;
+    postData?: string;
+    status?: number;
+    statusText?: string;
+    responseHeaders?: Record<string, string>;
+    /** Response body, base64 encoded if `base64` is set */
+    responseBody?: string;
+    base64?: boolean;
+    /** Size of the response body in bytes, if it was read */
+    bodySize?: number;
+    timing?: Protocol.Network.ResourceTiming;
+    serverIPAddress?: string;
+    fromCache?: boolean;
+    fromServiceWorker?: boolean;
+    /** Whether a route rule answered or failed the request instead of the network */
+    mocked?: boolean;
+    /** Network error the request failed with, e.g. `net::ERR_CONNECTION_REFUSED` */
+    failure?: string;
+}
+
+/**
+ * Network errors that aren't failures of the page: requests canceled by a navigation or by the runner, and blocked URLs
+ */
+const IGNORED_FAILURES = ['net::ERR_ABORTED', 'net::ERR_BLOCKED_BY_CLIENT'];
+
+/**
+ * Checks whether a response is text, as opposed to binary content
+ * @param mimeType Content type of the response
+ * @returns {boolean} Whether the body can be kept as text
+ */
+const isTextual = (mimeType: string): boolean =>
+    /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i.test(mimeType);
+
+/**
+ * Checks whether a status matches the expected one, e.g. `201` or `2xx`
+ * @param status The status
+ * @param expected The expected status
+ * @returns {boolean} Whether the status matches
+ */
+const statusMatches = (status: number, expected: string): boolean =>
+    new RegExp(`^${expected.toLowerCase().replace(/x/g, '\\d')}$`).test(String(status));
+
+/**
+ * Captures the requests and responses of the pages of a script run: headers, status, timing and,
+ * for XHR and fetch, the bodies. The capture is checked by the network expectations and exported
+ * as a HAR file.
+ */
+export class NetworkCapture {
+    /** Requests of the run, in the order they were sent */
+    public readonly entries: NetworkEntry[];
+    private readonly context: ScriptContext;
+    private readonly settings: CaptureConfig;
+    private readonly byRequest: WeakMap<HTTPRequest, NetworkEntry>;
+    /** Bodies being read */
+    private readonly pending: Set<Promise<void>>;
+
+    constructor(context: ScriptContext) {
+        this.entries = [];
+        this.context = context;
+        this.settings = config.get<CaptureConfig>('network.capture');
+        this.byRequest = new WeakMap();
+        this.pending = new Set();
+    }
+
+    /**
+     * Captures the requests of a page
+     * @param page Puppeteer Page object
+     */
+    public attach(page: Page): void {
+        page.on('request', request => this.sent(request));
+        page.on('response', response => this.received(response));
+        page.on('requestfinished', request => this.finished(request));
+        page.on('requestfailed', request => this.failed(request));
+    }
+
+    private sent(request: HTTPRequest): void {
+        const entry: NetworkEntry = {
+            method: request.method(),
+            url: request.url(),
+            resourceType: request.resourceType(),
+            step: this.context.report.stepNumber,
+            startTime: Date.now(),
+            requestHeaders: request.headers(),
+            postData: this.settings.bodies && FETCH_RESOURCE_TYPES.includes(request.resourceType()) ? request.postData() : undefined
+        };
+        this.byRequest.set(request, entry);
+        this.entries.push(entry);
+    }
+
+    private received(response: HTTPResponse): void {
+        const entry = this.byRequest.get(response.request());
+        if (!entry) {
+            return;
+        }
+
+        entry.status = response.status();
+        entry.statusText = response.statusText();
+        entry.responseHeaders = response.headers();
+        entry.timing = response.timing() ?? undefined;
+        entry.serverIPAddress = response.remoteAddress().ip;
+        entry.fromCache = response.fromCache();
+        entry.fromServiceWorker = response.fromServiceWorker();
+    }
+
+    private finished(request: HTTPRequest): void {
+        const entry = this.byRequest.get(request);
+        const response = request.response();
+        if (!entry) {
+            return;
+        }
+
+        entry.endTime = Date.now();
+        entry.mocked = this.context.requests.routes.isMocked(request) || undefined;
+        if (response && entry.status === undefined) {
+            this.received(response);
+        }
+
+        // the bodies of the redirects aren't available
+        if (!response || !this.settings.bodies || !FETCH_RESOURCE_TYPES.includes(request.resourceType())
+            || (entry.status !== undefined && entry.status >= 300 && entry.status < 400)) {
+            return;
+        }
+
+        const reading = response.buffer().then(buffer => {
+            entry.bodySize = buffer.length;
+            if (buffer.length > this.settings.maxBodySize) {
+                return;
+            }
+            const textual = isTextual(entry.responseHeaders?.['content-type'] ?? '');
+            entry.responseBody = buffer.toString(textual ? 'utf8' : 'base64');
+            entry.base64 = !textual || undefined;
+        }).catch(error => {
+            Logger.debug(`Failed to read the response body of ${request.url()}: ${error}`);
+        }).finally(() => {
+            this.pending.delete(reading);
+        });
+        this.pending.add(reading);
+    }
+
+    private failed(request: HTTPRequest): void {
+        const entry = this.byRequest.get(request);
+        if (!entry) {
+            return;
+        }
+
+        entry.endTime = Date.now();
+        entry.mocked = this.context.requests.routes.isMocked(request) || undefined;
+        entry.failure = request.failure()?.errorText ?? 'failed';
+    }
+
+    /**
+     * Waits until the response bodies being read are kept
+     * @returns {Promise<void>}
+     */
+    public async settle(): Promise<void> {
+        await Promise.all(this.pending);
+    }
+
+    /**
+     * Waits for a request matching the method and the URL glob, answered with the expected status
+     * @param method HTTP method, any method if undefined
+     * @param glob URL glob, or path glob when it starts with a slash
+     * @param status Expected status, e.g. `201` or `2xx`, any response if undefined
+     * @returns {Promise<NetworkEntry>} The matching request
+     * @throws {StepFailedError} If no such request was answered in time
+     */
+    public async expectRequest(method: string | undefined, glob: string, status?: string): Promise<NetworkEntry> {
+        const described = `${method ? `a ${method}` : 'a request'} to ${glob}${status ? ` returning ${status}` : ''}`;
+        const deadline = Date.now() + this.settings.timeout;
+
+        for (;;) {
+            const matching = this.find(method, glob);
+            const entry = matching.find(entry => entry.status !== undefined && (!status || statusMatches(entry.status, status)));
+            if (entry) {
+                return entry;
+            }
+
+            // the request may not be sent yet, or still be waiting for its response
+            if (Date.now() >= deadline) {
+                if (matching.length === 0) {
+                    throw new StepFailedError(`Expected ${described}, no such request was sent`);
+                }
+                const got = matching.slice(-5).map(entry => `${entry.method} ${entry.url} ${entry.failure ?? entry.status ?? 'pending'}`);
+                throw new StepFailedError(`Expected ${described}, got: ${got.join(', ')}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 250));
+        }
+    }
+
+    /**
+     * Checks that no request matching the method and the URL glob was sent
+     * @param method HTTP method, any method if undefined
+     * @param glob URL glob, or path glob when it starts with a slash
+     * @throws {StepFailedError} If such a request was sent
+     */
+    public expectNoRequest(method: string | undefined, glob: string): void {
+        const matching = this.find(method, glob);
+        if (matching.length > 0) {
+            throw new StepFailedError(
+                `Expected no ${method ? `${method} ` : ''}request to ${glob}, got: ${matching.slice(-5).map(entry => `${entry.method} ${entry.url}`).join(', ')}`
+            );
+        }
+    }
+
+    /**
+     * Checks that no request failed with a network error or a server error, the requests canceled by a
+     * navigation, the blocked ones and the ones failed by a route rule aside
+     * @throws {StepFailedError} If a request failed
+     */
+    public expectNoFailures(): void {
+        const failed = this.entries.filter(entry => !entry.mocked && (entry.failure
+            ? !IGNORED_FAILURES.includes(entry.failure)
+            : entry.status !== undefined && entry.status >= 500));
+        if (failed.length > 0) {
+            const listed = failed.slice(0, 5).map(entry => `${entry.method} ${entry.url} ${entry.failure ?? entry.status}`);
+            throw new StepFailedError(
+                `${failed.length} request${failed.length === 1 ? '' : 's'} failed: ${listed.join(', ')}${failed.length > 5 ? ', ...' : ''}`
+            );
+        }
+    }
+
+    /**
+     * Finds the requests matching the method and the URL glob
+     * @param method HTTP method, any method if undefined
+     * @param glob URL glob, or path glob when it starts with a slash
+     * @returns {NetworkEntry[]} The matching requests, in the order they were sent
+     */
+    private find(method: string | undefined, glob: string): NetworkEntry[] {
+        const matches = compileUrlGlob(glob);
+        return this.entries.filter(entry => {
+            if (method && entry.method.toUpperCase() !== method.toUpperCase()) {
+                return false;
+            }
+            try {
+                return matches(new URL(entry.url));
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Writes the capture to the run's artifacts as `network.har`, if enabled, never throws
+     * @param steps Command of each step, by 1-based step number
+     * @returns {Promise<string | null>} Path of the written file, null if the HAR export or the artifacts are disabled
+     */
+    public async writeHar(steps: string[]): Promise<string | null> {
+        if (!this.settings.har) {
+            return null;
+        }
+
+        try {
+            await this.settle();
+            const written = this.context.artifacts.write(this.context.artifacts.runDir, 'network.har', JSON.stringify(this.toHar(steps), null, 2));
+            if (written) {
+                Logger.debug(`Network capture written to ${written}`);
+            }
+            return written;
+        } catch (error) {
+            Logger.warn(`Failed to write the network capture: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Exports the capture in the HAR 1.2 format, one HAR page per step, the secrets masked in the URLs,
+     * the header values and the text bodies
+     * @param steps Command of each step, by 1-based step number
+     * @returns {object} The HAR document
+     */
+    public toHar(steps: string[]): object {
+        const mask = Logger.maskSecrets;
+        const headers = (record: Record<string, string> = {}) =>
+            Object.entries(record).flatMap(([name, value]) => value.split('\n').map(line => ({ name, value: mask(line) })));
+        const duration = (start: number, end: number) => (start >= 0 && end >= 0 ? Math.max(0, end - start) : -1);
+        const { version } = JSON.parse(fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf8'));
+
+        const pages = steps.flatMap((command, index) => {
+            const first = this.entries.find(entry => entry.step === index + 1);
+            return first ? [{ id: `step_${index + 1}`, title: command, startedDateTime: new Date(first.startTime).toISOString(), pageTimings: {} }] : [];
+        });
+
+        return {
+            log: {
+                version: '1.2',
+                creator: { name: 'webcopilot', version },
+                pages,
+                entries: this.entries.map(entry => {
+                    const elapsed = (entry.endTime ?? entry.startTime) - entry.startTime;
+                    const url = new URL(entry.url);
+                    const timing = entry.timing;
+                    const send = timing ? Math.max(0, duration(timing.sendStart, timing.sendEnd)) : 0;
+                    const wait = timing ? Math.max(0, duration(timing.sendEnd, timing.receiveHeadersEnd)) : elapsed;
+                    // the browser's timing is more precise than the events, the total is the sum of the phases
+                    const receive = Math.max(0, elapsed - send - wait);
+                    const time = send + wait + receive;
+                    return {
+                        // the requests sent before the first step belong to no page
+                        ...(entry.step > 0 ? { pageref: `step_${entry.step}` } : {}),
+                        startedDateTime: new Date(entry.startTime).toISOString(),
+                        time,
+                        request: {
+                            method: entry.method,
+                            url: mask(entry.url),
+                            httpVersion: 'HTTP/1.1',
+                            cookies: [],
+                            headers: headers(entry.requestHeaders),
+                            queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value: mask(value) })),
+                            ...(entry.postData !== undefined ? {
+                                postData: { mimeType: entry.requestHeaders['content-type'] ?? '', text: mask(entry.postData) }
+                            } : {}),
+                            headersSize: -1,
+                            bodySize: entry.postData?.length ?? 0
+                        },
+                        response: {
+                            status: entry.status ?? 0,
+                            statusText: entry.statusText ?? '',
+                            httpVersion: 'HTTP/1.1',
+                            cookies: [],
+                            headers: headers(entry.responseHeaders),
+                            content: {
+                                size: entry.bodySize ?? -1,
+                                mimeType: entry.responseHeaders?.['content-type'] ?? '',
+                                ...(entry.responseBody !== undefined ? { text: entry.base64 ? entry.responseBody : mask(entry.responseBody) } : {}),
+                                ...(entry.base64 ? { encoding: 'base64' } : {})
+                            },
+                            redirectURL: mask(entry.responseHeaders?.['location'] ?? ''),
+                            headersSize: -1,
+                            bodySize: entry.bodySize ?? -1
+                        },
+                        cache: {},
+                        timings: {
+                            blocked: -1,
+                            dns: timing ? duration(timing.dnsStart, timing.dnsEnd) : -1,
+                            connect: timing ? duration(timing.connectStart, timing.connectEnd) : -1,
+                            ssl: timing ? duration(timing.sslStart, timing.sslEnd) : -1,
+                            send,
+                            wait,
+                            receive
+                        },
+                        ...(entry.serverIPAddress ? { serverIPAddress: entry.serverIPAddress } : {}),
+                        _resourceType: entry.resourceType,
+                        ...(entry.failure ? { _error: entry.failure } : {}),
+                        ...(entry.mocked ? { _mocked: true } : {})
+                    };
+                })
+            }
+        };
+    }
+}
@@ -0,0 +1,247 @@
+import { CDPSession, Frame, Page, Protocol } from 'puppeteer';
+import { Logger } from './logger';
+
+/**
+ * Roles giving context to the tagged elements, e.g. the heading of the form a field belongs to
+ */
+const CONTEXT_ROLES = [
+    'heading', 'dialog', 'alertdialog', 'alert', 'status', 'navigation', 'main', 'form', 'search',
+    'table', 'row', 'cell', 'columnheader', 'rowheader', 'list', 'listitem', 'img', 'StaticText'
+];
+
+/**
+ * Properties describing the state of an element
+ */
+const STATE_PROPERTIES = ['disabled', 'checked', 'pressed', 'selected', 'expanded', 'required', 'invalid', 'focused', 'readonly'];
+
+/**
+ * Longest name or value written to the outline
+ */
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Bounding box of a tagged element in page coordinates
+ */
+interface ElementBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A tagged element of a frame
+ */
+interface TaggedElement {
+    id: string;
+    /** Bounding box in page coordinates, undefined if the element isn't rendered */
+    box?: ElementBox;
+}
+
+/**
+ * Accessibility tree of a frame, and the frames it owns
+ */
+interface FrameTree {
+    nodes: Map<string, Protocol.Accessibility.AXNode>;
+    root: Protocol.Accessibility.AXNode;
+    /** Tagged elements of the frame, by backend DOM node id */
+    tagged: Map<number, TaggedElement>;
+    /** Child frames, by backend DOM node id of their frame element */
+    children: Map<number, Frame>;
+}
+
+/**
+ * Gets the CDP session and the id of a frame, Puppeteer keeps them internal
+ * @param frame Puppeteer Frame object
+ * @returns {{ client: CDPSession; frameId: string }} The session of the frame's target, shared with Puppeteer, and the frame id
+ */
+const frameTarget = (frame: Frame): { client: CDPSession; frameId: string } => {
+    const internal = frame as unknown as { client: CDPSession; _id: string };
+    return { client: internal.client, frameId: internal._id };
+};
+
+/**
+ * Resolves the tagged elements of a frame to DOM nodes, so they can be matched with the accessibility nodes
+ * @param frame Puppeteer Frame object
+ * @param scroll Scroll position of the main frame, the boxes are in page coordinates
+ * @returns {Promise<Map<number, TaggedElement>>} The tagged elements, by backend DOM node id
+ */
+const getTaggedElements = async (frame: Frame, scroll: { x: number; y: number }): Promise<Map<number, TaggedElement>> => {
+    const tagged = new Map<number, TaggedElement>();
+    const ids = await frame.evaluate(() => Array.from(((window as any).__webcopilotTags as Map<string, Element> | undefined ?? new Map()).keys()));
+    for (const id of ids) {
+        const handle = await frame.evaluateHandle(id => ((window as any).__webcopilotTags as Map<string, Element>).get(id) ?? null, id);
+        const element = handle.asElement();
+        if (!element) {
+            await handle.dispose();
+            continue;
+        }
+
+        try {
+            // the box is relative to the viewport of the main frame, whatever frame the element is in
+            const box = await element.boundingBox();
+            tagged.set(await element.backendNodeId(), {
+                id,
+                box: box ? {
+                    x: Math.round(box.x + scroll.x),
+                    y: Math.round(box.y + scroll.y),
+                    width: Math.round(box.width),
+                    height: Math.round(box.height)
+                } : undefined
+            });
+        } finally {
+            await element.dispose();
+        }
+    }
+    return tagged;
+};
+
+/**
+ * Captures the accessibility tree and the tagged elements of every frame of the page
+ * @param page Puppeteer Page object
+ * @returns {Promise<Map<Frame, FrameTree>>} The tree of each frame, the frames that couldn't be captured are left out
+ */
+const captureFrameTrees = async (page: Page): Promise<Map<Frame, FrameTree>> => {
+    const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+    const trees = new Map<Frame, FrameTree>();
+    for (const frame of page.frames()) {
+        if (frame.detached) {
+            continue;
+        }
+
+        try {
+            // a cross-origin frame is reached through the session of its own target
+            const { client, frameId } = frameTarget(frame);
+            const { nodes } = await client.send('Accessibility.getFullAXTree', { frameId });
+            const root = nodes.find(node => !node.parentId);
+            if (root) {
+                trees.set(frame, {
+                    nodes: new Map(nodes.map(node => [node.nodeId, node])),
+                    root,
+                    tagged: await getTaggedElements(frame, scroll),
+                    children: new Map()
+                });
+            }
+        } catch (error) {
+            // e.g. a frame navigating away while being captured
+            if (frame === page.mainFrame()) {
+                throw error;
+            }
+            Logger.debug(`Frame left out of the outline: ${frame.url()}: ${error}`);
+        }
+    }
+
+    // each frame is outlined where its frame element is
+    for (const frame of trees.keys()) {
+        const parent = frame.parentFrame();
+        const parentTree = parent ? trees.get(parent) : undefined;
+        if (!parentTree) {
+            continue;
+        }
+        const owner = await frame.frameElement().catch(() => null);
+        if (owner) {
+            parentTree.children.set(await owner.backendNodeId(), frame);
+            await owner.dispose();
+        }
+    }
+    return trees;
+};
+
+/**
+ * Shortens a name or value to a single quoted line, masking the secrets typed into the page
+ * @param text Text to shorten
+ * @returns {string} The quoted text
+ */
+const quote = (text: string): string => {
+    const line = Logger.maskSecrets(text).replace(/\s+/g, ' ').trim();
+    return JSON.stringify(line.length > MAX_TEXT_LENGTH ? `${line.slice(0, MAX_TEXT_LENGTH - 1)}…` : line);
+};
+
+/**
+ * Captures a compact text outline of the page from its accessibility tree, one line per node with
+ * its role, name, state and, for the tagged elements, the tag id and bounding box. The content of
+ * the frames is outlined under their frame element. The page must have been tagged first, see
+ * `injectTagging`.
+ * @param page Puppeteer Page object
+ * @param maxNodes Maximum number of lines of the outline
+ * @returns {Promise<string>} The outline, empty if the accessibility tree couldn't be captured
+ */
+export async function capturePageOutline(page: Page, maxNodes: number): Promise<string> {
+    try {
+        const trees = await captureFrameTrees(page);
+        const mainTree = trees.get(page.mainFrame());
+        if (!mainTree) {
+            return '';
+        }
+
+        const lines: string[] = [];
+        const visit = (tree: FrameTree, node: Protocol.Accessibility.AXNode, depth: number, parentName: string) => {
+            if (lines.length >= maxNodes) {
+                return;
+            }
+
+            const role = String(node.role?.value ?? '');
+            const name = String(node.name?.value ?? '').trim();
+            const tagged = node.backendDOMNodeId !== undefined ? tree.tagged.get(node.backendDOMNodeId) : undefined;
+            const tagId = tagged?.id;
+            // text repeating the name of its parent, e.g. the text of a heading, is left out
+            const included = !node.ignored && (tagId !== undefined || (
+                CONTEXT_ROLES.includes(role) && !(role === 'StaticText' && (name === '' || name === parentName))
+            ));
+
+            if (included) {
+                let line = `${'  '.repeat(depth)}${tagId !== undefined ? `[${tagId}] ` : ''}${role === 'StaticText' ? 'text' : role}`;
+                if (name) {
+                    line += ` ${quote(name)}`;
+                }
+
+                const value = node.value?.value;
+                if (value !== undefined && value !== '' && value !== name) {
+                    line += ` value=${quote(String(value))}`;
+                }
+
+                const states = (node.properties || [])
+                    .filter(property => STATE_PROPERTIES.includes(property.name) && property.value.value !== false && property.value.value !== 'false')
+                    .map(property => property.value.value === true || property.value.value === 'true' ? property.name : `${property.name}=${property.value.value}`);
+                if (states.length > 0) {
+                    line += ` (${states.join(', ')})`;
+                }
+
+                const box = tagged?.box;
+                if (box) {
+                    line += ` @ ${box.x},${box.y} ${box.width}x${box.height}`;
+                }
+                lines.push(line);
+
+                // the name of a tagged element already covers its content
+                if (tagId !== undefined) {
+                    return;
+                }
+            }
+
+            const childFrame = node.backendDOMNodeId !== undefined ? tree.children.get(node.backendDOMNodeId) : undefined;
+            const childTree = childFrame ? trees.get(childFrame) : undefined;
+            if (childTree && lines.length < maxNodes) {
+                lines.push(`${'  '.repeat(depth)}frame ${quote(childFrame!.url())}`);
+                visit(childTree, childTree.root, depth + 1, '');
+                return;
+            }
+
+            for (const childId of node.childIds || []) {
+                const child = tree.nodes.get(childId);
+                if (child) {
+                    visit(tree, child, included ? depth + 1 : depth, included ? name : parentName);
+                }
+            }
+        };
+        visit(mainTree, mainTree.root, 0, '');
+
+        if (lines.length >= maxNodes) {
+            lines.push(`… outline truncated to ${maxNodes} lines`);
+        }
+        return lines.join('\n');
+    } catch (error) {
+        Logger.warn(`Failed to capture the page outline: ${error}`);
+        return '';
+    }
+}
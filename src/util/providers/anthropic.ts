@@ -0,0 +1,62 @@
+import Anthropic from '@anthropic-ai/sdk';
+import config from 'config';
+import { LLMProvider, LLMRequest } from './provider';
+import { detectMediaType } from '../images';
+
+/**
+ * LLM provider backed by the Anthropic Claude API
+ */
+export class AnthropicProvider implements LLMProvider {
+    public readonly name = 'anthropic';
+    private anthropic: Anthropic;
+    private config: {
+        apiKey: string;
+        model: string;
+        temperature: number;
+        maxTokens: number;
+        topP: number;
+        topK: number;
+        frequencyPenalty: number;
+        presencePenalty: number;
+    };
+
+    constructor() {
+        this.config = config.get('claude');
+        this.anthropic = new Anthropic({
+            apiKey: this.config.apiKey,
+        });
+    }
+
+    public get model(): string {
+        return this.config.model;
+    }
+
+    public async complete(request: LLMRequest): Promise<string> {
+        const message = await this.anthropic.messages.create({
+            model: this.config.model,
+            max_tokens: this.config.maxTokens,
+            temperature: this.config.temperature,
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        {
+                            type: 'text',
+                            text: request.prompt
+                        },
+                        ...request.images.map(base64String => ({
+                            type: 'image' as const,
+                            source: {
+                                type: 'base64' as const,
+                                media_type: detectMediaType(base64String),
+                                data: base64String
+                            }
+                        }))
+                    ]
+                }
+            ]
+        });
+
+        return (message.content[0] as { text: string }).text;
+    }
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import config from 'config';
+import yaml from 'js-yaml';
+import { LLMProvider, LLMRequest } from './provider';
+
+/**
+ * A canned response entry of the fake provider's responses file
+ */
+interface ScriptedResponse {
+    /** Optional regular expression tested against the prompt, entries without it are consumed in order */
+    match?: string;
+    /** Response returned to the caller, objects are serialized to JSON */
+    response: string | object;
+}
+
+/**
+ * Scripted LLM provider that returns canned responses without any network access,
+ * intended for CI runs and local development
+ */
+export class FakeProvider implements LLMProvider {
+    public readonly name = 'fake';
+    public readonly model = 'fake';
+    private matched: { pattern: RegExp; response: string }[];
+    private queue: string[];
+    private defaultResponse: string;
+
+    constructor() {
+        const fakeConfig = config.get<{ responses: string; defaultResponse: string | object }>('fake');
+
+        this.matched = [];
+        this.queue = [];
+        this.defaultResponse = FakeProvider.serialize(fakeConfig.defaultResponse);
+
+        if (fakeConfig.responses) {
+            const entries = yaml.load(fs.readFileSync(fakeConfig.responses, 'utf8')) as ScriptedResponse[];
+            if (!Array.isArray(entries)) {
+                throw new Error(`Fake provider responses file must contain a list: ${fakeConfig.responses}`);
+            }
+
+            for (const entry of entries) {
+                const response = FakeProvider.serialize(entry.response);
+                if (entry.match) {
+                    this.matched.push({ pattern: new RegExp(entry.match, 'i'), response });
+                } else {
+                    this.queue.push(response);
+                }
+            }
+        }
+    }
+
+    private static serialize(response: string | object): string {
+        return typeof response === 'string' ? response : JSON.stringify(response, null, 4);
+    }
+
+    public async complete(request: LLMRequest): Promise<string> {
+        // matching entries take precedence and can be reused
+        const matched = this.matched.find(entry => entry.pattern.test(request.prompt));
+        if (matched) {
+            return matched.response;
+        }
+
+        // then the sequential entries, one per call
+        const next = this.queue.shift();
+        if (next !== undefined) {
+            return next;
+        }
+
+        return this.defaultResponse;
+    }
+}
@@ -0,0 +1,57 @@
+import { LLMProvider } from './provider';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai';
+import { FakeProvider } from './fake';
+
+export { LLMProvider, LLMRequest } from './provider';
+
+/**
+ * Settings of a supported provider
+ */
+export interface ProviderSettings {
+    /** Config section holding the provider's options */
+    section: string;
+    /** Environment variable overriding the provider's API key */
+    apiKeyEnv?: string;
+    /** Whether the provider refuses to run without an API key */
+    requiresApiKey: boolean;
+}
+
+const PROVIDERS: Record<string, ProviderSettings> = {
+    anthropic: { section: 'claude', apiKeyEnv: 'ANTHROPIC_API_KEY', requiresApiKey: true },
+    openai: { section: 'openai', apiKeyEnv: 'OPENAI_API_KEY', requiresApiKey: true },
+    local: { section: 'local', requiresApiKey: false },
+    fake: { section: 'fake', requiresApiKey: false },
+};
+
+/**
+ * Looks up the settings of a provider by name
+ * @param name Provider name as configured under `llm.provider`
+ * @returns Provider settings
+ */
+export const getProviderSettings = (name: string): ProviderSettings => {
+    const settings = PROVIDERS[name];
+    if (!settings) {
+        throw new Error(`Unknown LLM provider: ${name}, expected one of ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+    return settings;
+};
+
+/**
+ * Creates the LLM provider with the given name
+ * @param name Provider name as configured under `llm.provider`
+ * @returns {LLMProvider} The provider instance
+ */
+export const createProvider = (name: string): LLMProvider => {
+    switch (name) {
+        case 'anthropic':
+            return new AnthropicProvider();
+        case 'openai':
+        case 'local':
+            return new OpenAICompatibleProvider(getProviderSettings(name).section);
+        case 'fake':
+            return new FakeProvider();
+        default:
+            throw new Error(`Unknown LLM provider: ${name}, expected one of ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+};
@@ -0,0 +1,82 @@
+import config from 'config';
+import { LLMProvider, LLMRequest } from './provider';
+import { detectMediaType } from '../images';
+
+/**
+ * LLM provider for any server exposing the OpenAI chat completions API,
+ * including local servers such as Ollama, LM Studio or vLLM
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    public readonly name: string;
+    private config: {
+        apiKey: string;
+        baseUrl: string;
+        model: string;
+        temperature: number;
+        maxTokens: number;
+        timeout: number;
+    };
+
+    /**
+     * @param name Provider name, also used as the config section to read settings from
+     */
+    constructor(name: string) {
+        this.name = name;
+        this.config = config.get(name);
+    }
+
+    public get model(): string {
+        return this.config.model;
+    }
+
+    public async complete(request: LLMRequest): Promise<string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+
+        const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal: AbortSignal.timeout(this.config.timeout),
+            body: JSON.stringify({
+                model: this.config.model,
+                max_tokens: this.config.maxTokens,
+                temperature: this.config.temperature,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            {
+                                type: 'text',
+                                text: request.prompt
+                            },
+                            ...request.images.map(base64String => ({
+                                type: 'image_url',
+                                image_url: {
+                                    url: `data:${detectMediaType(base64String)};base64,${base64String}`
+                                }
+                            }))
+                        ]
+                    }
+                ]
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`${this.name} request failed with status ${response.status}: ${await response.text()}`);
+        }
+
+        const body = await response.json() as {
+            choices?: { message?: { content?: string | null } }[];
+        };
+        const content = body.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`${this.name} returned no message content`);
+        }
+
+        return content;
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * A single request sent to an LLM provider
+ */
+export interface LLMRequest {
+    /** The rendered prompt text */
+    prompt: string;
+    /** Base64 encoded screenshots attached to the prompt */
+    images: string[];
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+    /** Provider name as configured under `llm.provider` */
+    readonly name: string;
+    /** Model identifier used by the provider */
+    readonly model: string;
+
+    /**
+     * Sends the request to the model and returns the raw text response
+     * @param request Prompt and images to send
+     * @returns {Promise<string>} Raw text returned by the model
+     */
+    complete(request: LLMRequest): Promise<string>;
+}
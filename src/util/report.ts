@@ -0,0 +1,451 @@
+import * as fs from 'fs';
+import path from 'path';
+import { Action } from './actions';
+import { getImageSize } from './images';
+import { ConsoleRecord } from './console';
+import { Logger } from './logger';
+
+export type RunStatus = 'passed' | 'failed' | 'errored';
+
+/**
+ * A single attempt of a step, i.e. one LLM round-trip and the resulting action
+ */
+export interface AttemptRecord {
+    attempt: number;
+    startTime: number;
+    /** Attempt duration in milliseconds */
+    duration: number;
+    /** Time spent waiting for the LLM in milliseconds */
+    llmDuration: number;
+    /** Raw text returned by the LLM */
+    llmResponse?: string;
+    /** The parsed and validated action, null if it was invalid */
+    action?: Action | null;
+    /** Validation errors of the action */
+    errors?: string[];
+    /** Screenshot files sent to the LLM */
+    screenshots: string[];
+    /** Whether the attempt let the script move on */
+    passed: boolean;
+    /** Whether the action was replayed from the lockfile instead of asking the LLM */
+    replayed?: boolean;
+}
+
+/**
+ * A script line and its attempts
+ */
+export interface StepRecord {
+    /** 1-based line number in the script file */
+    line: number;
+    command: string;
+    status: RunStatus | 'skipped';
+    startTime: number;
+    /** Step duration in milliseconds */
+    duration: number;
+    attempts: AttemptRecord[];
+    error?: string;
+    /** Whether the step is soft, i.e. its failure doesn't stop the script */
+    soft?: boolean;
+    /** Console messages and uncaught errors of the page during the step */
+    console?: ConsoleRecord[];
+}
+
+/**
+ * Outcome of a script run
+ */
+export interface ScriptResult {
+    scriptPath: string;
+    /** `failed` when a step can't be fulfilled, `errored` on any other error */
+    status: RunStatus;
+    startTime: number;
+    /** Run duration in milliseconds */
+    duration: number;
+    error?: string;
+    steps: StepRecord[];
+    /** Variables of the run, including the values extracted from the page */
+    variables: Record<string, string>;
+    /** Directory of the run's artifacts, undefined if artifacts are disabled */
+    runDir?: string;
+}
+
+/**
+ * Records the steps and attempts of a script run
+ */
+export class ScriptReport {
+    private readonly steps: StepRecord[] = [];
+
+    /**
+     * The step being executed
+     */
+    public get currentStep(): StepRecord | undefined {
+        return this.steps[this.steps.length - 1];
+    }
+
+    /**
+     * 1-based number of the step being executed
+     */
+    public get stepNumber(): number {
+        return this.steps.length;
+    }
+
+    /**
+     * Starts recording a step
+     * @param line 1-based line number in the script file
+     * @param command The script line
+     * @returns {StepRecord} The step record
+     */
+    public startStep(line: number, command: string): StepRecord {
+        const step: StepRecord = {
+            line,
+            command,
+            status: 'passed',
+            startTime: Date.now(),
+            duration: 0,
+            attempts: []
+        };
+        this.steps.push(step);
+        return step;
+    }
+
+    /**
+     * Finishes the current step
+     * @param status Step status
+     * @param error Error message of a failed step
+     */
+    public finishStep(status: StepRecord['status'], error?: string): void {
+        const step = this.currentStep;
+        if (!step) {
+            return;
+        }
+
+        step.status = status;
+        step.error = error;
+        step.duration = Date.now() - step.startTime;
+
+        // close the attempt interrupted by an error
+        const attempt = step.attempts[step.attempts.length - 1];
+        if (attempt && !attempt.duration) {
+            attempt.duration = Date.now() - attempt.startTime;
+        }
+    }
+
+    /**
+     * Records a step that was never executed because the script stopped before it
+     * @param line 1-based line number in the script file
+     * @param command The script line
+     */
+    public skipStep(line: number, command: string): void {
+        this.startStep(line, command);
+        this.finishStep('skipped');
+    }
+
+    /**
+     * Starts recording an attempt of the current step
+     * @returns {AttemptRecord} The attempt record, to be filled in by the caller
+     */
+    public startAttempt(): AttemptRecord {
+        const step = this.currentStep;
+        if (!step) {
+            throw new Error('No step is being recorded');
+        }
+
+        const attempt: AttemptRecord = {
+            attempt: step.attempts.length + 1,
+            startTime: Date.now(),
+            duration: 0,
+            llmDuration: 0,
+            screenshots: [],
+            passed: false
+        };
+        step.attempts.push(attempt);
+        return attempt;
+    }
+
+    /**
+     * Finishes an attempt of the current step
+     * @param attempt The attempt record
+     * @param passed Whether the attempt let the script move on
+     */
+    public finishAttempt(attempt: AttemptRecord, passed: boolean): void {
+        attempt.passed = passed;
+        attempt.duration = Date.now() - attempt.startTime;
+    }
+
+    /**
+     * Builds the outcome of the script run
+     * @param scriptPath Path of the script file
+     * @param status Script status
+     * @param startTime Start time of the run
+     * @param variables Variables of the run
+     * @param error Error message of a failed run
+     * @returns {ScriptResult} The script result
+     */
+    public toResult(scriptPath: string, status: RunStatus, startTime: number, variables: Record<string, string>, error?: string): ScriptResult {
+        return {
+            scriptPath,
+            status,
+            startTime,
+            duration: Date.now() - startTime,
+            error,
+            steps: this.steps,
+            variables
+        };
+    }
+}
+
+/**
+ * Escapes text for XML and HTML output
+ */
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Renders the results as JUnit XML, one test suite per script and one test case per step
+ * @param results Outcome of each script
+ * @returns {string} JUnit XML document
+ */
+export const renderJUnitReport = (results: ScriptResult[]): string => {
+    const count = (steps: StepRecord[], status: StepRecord['status']) => steps.filter(step => step.status === status).length;
+    const allSteps = results.flatMap(result => result.steps);
+    const seconds = (duration: number) => (duration / 1000).toFixed(3);
+
+    const suites = results.map(result => {
+        const cases = result.steps.map(step => {
+            const name = escapeXml(`${step.line}: ${step.command}`);
+            const attributes = `name="${name}" classname="${escapeXml(result.scriptPath)}" time="${seconds(step.duration)}"`;
+
+            switch (step.status) {
+                case 'failed':
+                    return `    <testcase ${attributes}>\n      <failure message="${escapeXml(step.error || '')}"/>\n    </testcase>`;
+                case 'errored':
+                    return `    <testcase ${attributes}>\n      <error message="${escapeXml(step.error || '')}"/>\n    </testcase>`;
+                case 'skipped':
+                    return `    <testcase ${attributes}>\n      <skipped/>\n    </testcase>`;
+                default:
+                    return `    <testcase ${attributes}/>`;
+            }
+        });
+
+        const properties = Object.entries(result.variables).map(
+            ([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`
+        );
+
+        return [
+            `  <testsuite name="${escapeXml(result.scriptPath)}" tests="${result.steps.length}" failures="${count(result.steps, 'failed')}" errors="${count(result.steps, 'errored')}" skipped="${count(result.steps, 'skipped')}" time="${seconds(result.duration)}" timestamp="${new Date(result.startTime).toISOString()}">`,
+            ...(properties.length > 0 ? ['    <properties>', ...properties, '    </properties>'] : []),
+            ...cases,
+            '  </testsuite>'
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="webcopilot" tests="${allSteps.length}" failures="${count(allSteps, 'failed')}" errors="${count(allSteps, 'errored')}" skipped="${count(allSteps, 'skipped')}" time="${seconds(results.reduce((sum, result) => sum + result.duration, 0))}">`,
+        ...suites,
+        '</testsuites>',
+        ''
+    ].join('\n');
+};
+
+/**
+ * Renders the results as JSON
+ * @param results Outcome of each script
+ * @returns {string} JSON document
+ */
+export const renderJSONReport = (results: ScriptResult[]): string => {
+    return JSON.stringify({ generatedAt: new Date().toISOString(), scripts: results }, null, 4);
+};
+
+/**
+ * Renders a screenshot inlined as a data URI, with a marker on the location the action happened
+ */
+const renderScreenshot = async (filename: string, marker: { x: number; y: number } | null): Promise<string> => {
+    if (!fs.existsSync(filename)) {
+        return `<div class="missing">Missing screenshot: ${escapeXml(filename)}</div>`;
+    }
+
+    const base64String = (await fs.promises.readFile(filename)).toString('base64');
+    let markerHtml = '';
+    if (marker) {
+        // position the marker relative to the image size, so it stays in place when the image is scaled down
+        const size = await getImageSize(base64String);
+        const left = (marker.x / size.width * 100).toFixed(2);
+        const top = (marker.y / size.height * 100).toFixed(2);
+        markerHtml = `<div class="marker" style="left: ${left}%; top: ${top}%"></div>`;
+    }
+
+    return `<figure><div class="screenshot"><img src="data:image/png;base64,${base64String}"/>${markerHtml}</div><figcaption>${escapeXml(path.basename(filename))}</figcaption></figure>`;
+};
+
+/**
+ * Renders an attempt with its LLM response, action and screenshots
+ */
+const renderAttempt = async (attempt: AttemptRecord): Promise<string> => {
+    const action = attempt.action;
+    // navigating and giving up don't point at the page
+    const located = action && action.action !== 'navigate' && action.action !== 'unknown'
+        && typeof action.location_x === 'number' && typeof action.location_y === 'number'
+        ? { image: action.target_image, x: action.location_x, y: action.location_y }
+        : null;
+
+    const screenshots: string[] = [];
+    for (const [index, filename] of attempt.screenshots.entries()) {
+        const marker = located && located.image === index + 1 ? { x: located.x, y: located.y } : null;
+        screenshots.push(await renderScreenshot(filename, marker));
+    }
+
+    return `
+        <details class="attempt ${attempt.passed ? 'passed' : 'failed'}">
+            <summary>Attempt ${attempt.attempt}: ${attempt.passed ? 'passed' : 'failed'} in ${attempt.duration}ms ${attempt.replayed ? '(replayed from lockfile)' : `(LLM ${attempt.llmDuration}ms)`}</summary>
+            ${attempt.errors && attempt.errors.length > 0 ? `<h4>Validation errors</h4><pre>${escapeXml(attempt.errors.join('\n'))}</pre>` : ''}
+            ${attempt.llmResponse !== undefined ? `<h4>LLM response</h4><pre>${escapeXml(attempt.llmResponse)}</pre>` : ''}
+            ${attempt.action ? `<h4>Action</h4><pre>${escapeXml(JSON.stringify(attempt.action, null, 4))}</pre>` : ''}
+            <div class="screenshots">${screenshots.join('')}</div>
+        </details>`;
+};
+
+/**
+ * Renders the console messages and uncaught errors of a step
+ */
+const renderConsole = (records: ConsoleRecord[]): string => {
+    const isError = (record: ConsoleRecord) => record.type === 'uncaught' || record.type === 'error';
+    const errors = records.filter(record => !record.ignored && isError(record)).length;
+    const lines = records.map(record =>
+        `<span${isError(record) ? ' class="console-error"' : ''}>[${record.type}] ${escapeXml(record.text)}${record.location ? ` (${escapeXml(record.location)})` : ''}${record.ignored ? ' (ignored)' : ''}</span>`);
+    return `
+        <details class="console">
+            <summary>Console: ${records.length} message${records.length === 1 ? '' : 's'}${errors > 0 ? `, ${errors} error${errors === 1 ? '' : 's'}` : ''}</summary>
+            <pre>${lines.join('\n')}</pre>
+        </details>`;
+};
+
+/**
+ * Renders the results as a single self-contained HTML file with the screenshots inlined
+ * @param results Outcome of each script
+ * @returns {Promise<string>} HTML document
+ */
+export const renderHTMLReport = async (results: ScriptResult[]): Promise<string> => {
+    const sections: string[] = [];
+    for (const result of results) {
+        const steps: string[] = [];
+        for (const step of result.steps) {
+            const attempts: string[] = [];
+            for (const attempt of step.attempts) {
+                attempts.push(await renderAttempt(attempt));
+            }
+
+            steps.push(`
+    <div class="step ${step.status}">
+        <h3>${step.line}. ${escapeXml(step.command)} <span class="status">${step.status}${step.soft ? ' (soft)' : ''}</span> <span class="duration">${step.duration}ms</span></h3>
+        ${step.error ? `<pre class="error">${escapeXml(step.error)}</pre>` : ''}
+        ${step.console && step.console.length > 0 ? renderConsole(step.console) : ''}
+        ${attempts.join('')}
+    </div>`);
+        }
+
+        sections.push(`
+<section class="script ${result.status}">
+    <h2>${escapeXml(result.scriptPath)} <span class="status">${result.status}</span> <span class="duration">${(result.duration / 1000).toFixed(1)}s</span></h2>
+    ${result.error ? `<pre class="error">${escapeXml(result.error)}</pre>` : ''}
+    ${Object.keys(result.variables).length > 0 ? `<h4>Variables</h4><pre>${escapeXml(Object.entries(result.variables).map(([name, value]) => `${name} = ${value}`).join('\n'))}</pre>` : ''}
+    ${steps.join('')}
+</section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>WebCopilot Report</title>
+<style>
+    body { font-family: sans-serif; margin: 2em; color: #222; }
+    .status { font-size: 0.7em; text-transform: uppercase; padding: 2px 6px; border-radius: 4px; color: #fff; background: #888; }
+    .passed > h2 .status, .passed > h3 .status { background: #2e7d32; }
+    .failed > h2 .status, .failed > h3 .status { background: #c62828; }
+    .errored > h2 .status, .errored > h3 .status { background: #ef6c00; }
+    .duration { font-size: 0.7em; color: #888; font-weight: normal; }
+    .step { border-left: 4px solid #ddd; padding-left: 1em; margin: 1em 0; }
+    .step.passed { border-color: #2e7d32; }
+    .step.failed { border-color: #c62828; }
+    .step.errored { border-color: #ef6c00; }
+    pre { background: #f5f5f5; padding: 0.5em; white-space: pre-wrap; }
+    pre.error { background: #fdecea; }
+    .console-error { color: #c62828; }
+    .screenshots { display: flex; flex-wrap: wrap; gap: 1em; }
+    figure { margin: 0; }
+    .screenshot { position: relative; display: inline-block; }
+    .screenshot img { display: block; max-width: 480px; border: 1px solid #ccc; }
+    .marker { position: absolute; width: 16px; height: 16px; margin: -10px 0 0 -10px; border: 3px solid #e53935; border-radius: 50%; box-shadow: 0 0 0 2px #fff; }
+</style>
+</head>
+<body>
+<h1>WebCopilot Report</h1>
+<p>Generated at ${new Date().toISOString()}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Masks the secrets in every text of a value, e.g. a typed secret showing up in an error message or a console record
+ * @param value The value
+ * @returns {T} A copy of the value without secrets
+ */
+const maskSecrets = <T>(value: T): T => {
+    if (typeof value === 'string') {
+        return Logger.maskSecrets(value) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(maskSecrets) as T;
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskSecrets(item)])) as T;
+    }
+    return value;
+};
+
+/**
+ * Writes the reports of the run, the secrets masked
+ * @param results Outcome of each script
+ * @param dir Directory to write the reports to
+ * @param formats Report formats to write: junit, json and/or html
+ * @returns {Promise<string[]>} Paths of the written reports
+ */
+export const writeReports = async (runResults: ScriptResult[], dir: string, formats: string[]): Promise<string[]> => {
+    const results = maskSecrets(runResults);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const written: string[] = [];
+    for (const format of formats) {
+        let filename: string;
+        let content: string;
+        switch (format) {
+            case 'junit':
+                filename = path.join(dir, 'junit.xml');
+                content = renderJUnitReport(results);
+                break;
+            case 'json':
+                filename = path.join(dir, 'report.json');
+                content = renderJSONReport(results);
+                break;
+            case 'html':
+                filename = path.join(dir, 'report.html');
+                content = await renderHTMLReport(results);
+                break;
+            default:
+                throw new Error(`Unknown report format: ${format}`);
+        }
+
+        await fs.promises.writeFile(filename, content, 'utf8');
+        written.push(filename);
+    }
+
+    return written;
+};
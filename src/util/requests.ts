@@ -1,21 +1,136 @@
-import { Page } from 'puppeteer';
+import { BrowserContext, CDPSession, HTTPRequest, Page, Protocol, ResourceType, Target } from 'puppeteer';
 import { Logger } from './logger';
+import { RouteRule, Routes } from './routes';
 import config from 'config';
 
+/**
+ * A request sent by a page, or by a service worker of its origin, and not answered yet
+ */
+export interface TrackedRequest {
+    /** Request id, shared by the requests of a redirect chain */
+    id: string;
+    url: string;
+    method: string;
+    resourceType: ResourceType;
+    /** When the request, or the first request of its redirect chain, was sent */
+    timestamp: number;
+    /** Number of redirects followed so far */
+    redirects: number;
+    /** Whether a service worker sent the request, e.g. forwarding a fetch of the page */
+    serviceWorker: boolean;
+}
+
+/**
+ * Which pending requests to list
+ */
+export interface PendingFilter {
+    /** Only the requests of these types, all types if undefined */
+    resourceTypes?: ResourceType[];
+    /** Leave out the requests pending for longer than this, in milliseconds, e.g. long polling */
+    maxAge?: number;
+}
+
+/**
+ * Resource types of the requests sent by scripts, as opposed to the ones loading the document and its resources
+ */
+export const FETCH_RESOURCE_TYPES: ResourceType[] = ['xhr', 'fetch'];
+
+/**
+ * Gets the id of a request, Puppeteer keeps it internal
+ * @param request Puppeteer HTTPRequest object
+ * @returns {string} The CDP request id, shared by the requests of a redirect chain
+ */
+const requestId = (request: HTTPRequest): string => (request as unknown as { id: string }).id;
+
+/**
+ * Wraps `fetch` and `XMLHttpRequest` in every document of the page so the runner can abort their
+ * requests once sent: request interception can't reach a request it already let through.
+ * Runs in the page, before its own scripts.
+ */
+const trackPageFetches = (): void => {
+    const global = window as unknown as { __webcopilotFetches?: Set<{ url: string; abort: () => void }> };
+    if (global.__webcopilotFetches) {
+        return;
+    }
+    const pending = new Set<{ url: string; abort: () => void }>();
+    global.__webcopilotFetches = pending;
+    const absolute = (url: string | URL): string => {
+        try {
+            return new URL(String(url), location.href).href;
+        } catch {
+            return String(url);
+        }
+    };
+
+    const fetch = window.fetch;
+    window.fetch = function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        // the page's own signal still aborts the request
+        const controller = new AbortController();
+        const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+        if (signal?.aborted) {
+            controller.abort(signal.reason);
+        }
+        signal?.addEventListener('abort', () => controller.abort(signal.reason));
+
+        const entry = { url: absolute(input instanceof Request ? input.url : input), abort: () => controller.abort() };
+        pending.add(entry);
+        return fetch.call(this, input, { ...init, signal: controller.signal }).finally(() => pending.delete(entry));
+    };
+
+    const urls = new WeakMap<XMLHttpRequest, string>();
+    const open = XMLHttpRequest.prototype.open as (this: XMLHttpRequest, ...args: unknown[]) => void;
+    const send = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, ...args: unknown[]): void {
+        urls.set(this, absolute(args[1] as string | URL));
+        open.apply(this, args);
+    } as typeof XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null): void {
+        const entry = { url: urls.get(this) ?? '', abort: () => this.abort() };
+        pending.add(entry);
+        this.addEventListener('loadend', () => pending.delete(entry));
+        send.call(this, body);
+    };
+};
+
+/**
+ * Requests sent by a service worker, by request id
+ */
+interface ServiceWorkerRequests {
+    /** Origin of the service worker, its requests count for the pages of the same origin */
+    origin: string;
+    session: CDPSession;
+    requests: Map<string, TrackedRequest>;
+}
+
+/**
+ * Tracks the requests of the pages of a script run, each script run owns its own instance and
+ * every page attached to it gets its own state, keyed by request id
+ */
 export class Requests {
-    private static instance: Requests;
-    private ongoingRequests: Map<string, { 
-        timestamp: number;
-        method: string;
-        resourceType: string;
-    }>;
+    /** Request tracking of each attached page */
+    private static readonly attached = new WeakMap<Page, Requests>();
+    /** Pending requests of each attached page, by request id */
+    private readonly pages: Map<Page, Map<string, { request: HTTPRequest; details: TrackedRequest }>>;
+    /** When each request was sent, the first request of a redirect chain is looked up for the whole chain */
+    private readonly sentAt: WeakMap<HTTPRequest, number>;
+    /** Requests of the service workers of the browser contexts of the pages */
+    private readonly serviceWorkers: Map<Target, ServiceWorkerRequests>;
+    /** Browser contexts whose service workers are tracked */
+    private readonly contexts: WeakSet<BrowserContext>;
+    /** Rules answering the matching requests in place of the network */
+    public readonly routes: Routes;
     private networkConfig: {
         block: string[];
+        routes: RouteRule[];
     };
 
-    private constructor() {
-        this.ongoingRequests = new Map();
+    constructor() {
+        this.pages = new Map();
+        this.sentAt = new WeakMap();
+        this.serviceWorkers = new Map();
+        this.contexts = new WeakSet();
         this.networkConfig = config.get('network');
+        this.routes = new Routes(this.networkConfig.routes);
     }
 
     private static isUrlMatchingPattern(url: string, pattern: string): boolean {
@@ -24,9 +139,9 @@ export class Requests {
             .replace(/\./g, '\\.')  // Escape dots
             .replace(/\*/g, '.*')   // Convert * to .*
             .replace(/\?/g, '.');   // Convert ? to .
-        
+
         const regex = new RegExp(`^${regexPattern}$`);
-        
+
         try {
             const urlObj = new URL(url);
             // Test against hostname + path
@@ -37,76 +152,247 @@ export class Requests {
         }
     }
 
-    public static getInstance(): Requests {
-        if (!Requests.instance) {
-            Requests.instance = new Requests();
-        }
-        return Requests.instance;
+    /**
+     * Gets the request tracking of a page
+     * @param page Puppeteer Page object
+     * @returns {Requests | undefined} The request tracking, undefined if the page isn't attached
+     */
+    public static of(page: Page): Requests | undefined {
+        return Requests.attached.get(page);
     }
 
-    private static shouldBlockRequest(url: string): boolean {
-        const instance = Requests.getInstance();
-        return instance.networkConfig.block.some(pattern => 
+    private shouldBlockRequest(url: string): boolean {
+        return this.networkConfig.block.some(pattern =>
             Requests.isUrlMatchingPattern(url, pattern)
         );
     }
 
-    public static newRequest(request: any): void {
-        const instance = Requests.getInstance();
-        
+    /**
+     * Enables request interception on the page and registers the request listeners
+     * @param page Puppeteer Page object
+     */
+    public async attach(page: Page): Promise<void> {
+        Requests.attached.set(page, this);
+        this.pages.set(page, new Map());
+        page.once('close', () => this.pages.delete(page));
+        await page.evaluateOnNewDocument(trackPageFetches);
+        await page.setRequestInterception(true);
+
+        page.on('request', request => {
+            this.newRequest(page, request);
+        });
+
+        page.on('requestfinished', request => {
+            this.settledRequest(page, request);
+        });
+
+        page.on('requestfailed', request => {
+            this.settledRequest(page, request);
+        });
+
+        // the requests the service workers send on behalf of the page aren't seen by the page
+        const context = page.browserContext();
+        if (!this.contexts.has(context)) {
+            this.contexts.add(context);
+            context.on('targetcreated', target => this.watchServiceWorker(target));
+            context.on('targetdestroyed', target => this.unwatchServiceWorker(target));
+            for (const target of context.targets()) {
+                this.watchServiceWorker(target);
+            }
+        }
+    }
+
+    private newRequest(page: Page, request: HTTPRequest): void {
         // check if the request is blocked
-        if (Requests.shouldBlockRequest(request.url())) {
+        if (this.shouldBlockRequest(request.url())) {
             Logger.debug(`Request blocked: ${request.url()}`);
-            request.abort();
+            request.abort('blockedbyclient');
             return;
         }
 
-        // proceed with request
-        request.continue();
-        
-        instance.ongoingRequests.set(request.url(), {
-            timestamp: Date.now(),
-            method: request.method(),
-            resourceType: request.resourceType()
+        // answer the request as the matching route says, or else proceed with it
+        if (!this.routes.handle(request)) {
+            request.continue();
+        }
+
+        // a redirect is sent under the id of the request it follows, which is already settled by then
+        const chain = request.redirectChain();
+        const timestamp = (chain.length > 0 ? this.sentAt.get(chain[0]) : undefined) ?? Date.now();
+        this.sentAt.set(request, timestamp);
+        this.pages.get(page)?.set(requestId(request), {
+            request,
+            details: {
+                id: requestId(request),
+                url: request.url(),
+                method: request.method(),
+                resourceType: request.resourceType(),
+                timestamp,
+                redirects: chain.length,
+                serviceWorker: false
+            }
         });
     }
 
-    public static finishedRequest(request: any): void {
-        const instance = Requests.getInstance();
-        instance.ongoingRequests.delete(request.url());
-        // Logger.debug(`Finished request: ${request.url()}`);
+    private settledRequest(page: Page, request: HTTPRequest): void {
+        const requests = this.pages.get(page);
+        // the request of the id may already be the next one of its redirect chain
+        if (requests?.get(requestId(request))?.request === request) {
+            requests.delete(requestId(request));
+        }
     }
 
-    public static failedRequest(request: any): void {
-        const instance = Requests.getInstance();
-        instance.ongoingRequests.delete(request.url());
-        // Logger.debug(`Failed request: ${request.url()}`);
+    /**
+     * Tracks the requests of a service worker, never throws
+     * @param target The created target
+     */
+    private watchServiceWorker(target: Target): void {
+        if (target.type() !== 'service_worker' || this.serviceWorkers.has(target)) {
+            return;
+        }
+
+        let origin: string;
+        try {
+            origin = new URL(target.url()).origin;
+        } catch {
+            return;
+        }
+
+        target.createCDPSession().then(async session => {
+            const requests = new Map<string, TrackedRequest>();
+            this.serviceWorkers.set(target, { origin, session, requests });
+
+            session.on('Network.requestWillBeSent', (event: Protocol.Network.RequestWillBeSentEvent) => {
+                const previous = event.redirectResponse ? requests.get(event.requestId) : undefined;
+                requests.set(event.requestId, {
+                    id: event.requestId,
+                    url: event.request.url,
+                    method: event.request.method,
+                    resourceType: (event.type ?? 'Other').toLowerCase() as ResourceType,
+                    timestamp: previous?.timestamp ?? Date.now(),
+                    redirects: previous ? previous.redirects + 1 : 0,
+                    serviceWorker: true
+                });
+            });
+            session.on('Network.loadingFinished', event => requests.delete(event.requestId));
+            session.on('Network.loadingFailed', event => requests.delete(event.requestId));
+            await session.send('Network.enable');
+        }).catch(error => {
+            Logger.debug(`Failed to track the requests of the service worker ${target.url()}: ${error}`);
+        });
     }
 
-    public static async abortAllRequests(page: Page): Promise<void> {
-        const instance = Requests.getInstance();
+    /**
+     * Stops tracking the requests of a service worker that stopped
+     * @param target The destroyed target
+     */
+    private unwatchServiceWorker(target: Target): void {
+        const worker = this.serviceWorkers.get(target);
+        if (worker) {
+            this.serviceWorkers.delete(target);
+            worker.session.detach().catch(() => {});
+        }
+    }
 
-        if (instance.ongoingRequests.size === 0) {
+    /**
+     * Lists the pending requests of a page, including the ones of the service workers of its origin
+     * @param page Puppeteer Page object
+     * @param filter Which requests to list, all of them by default
+     * @returns {TrackedRequest[]} The pending requests, the oldest first
+     */
+    public pending(page: Page, filter: PendingFilter = {}): TrackedRequest[] {
+        let origin: string | null = null;
+        try {
+            origin = new URL(page.url()).origin;
+        } catch {
+            // e.g. about:blank, no service worker controls it
+        }
+
+        const requests = Array.from(this.pages.get(page)?.values() ?? []).map(entry => entry.details);
+        for (const worker of this.serviceWorkers.values()) {
+            if (worker.origin === origin) {
+                requests.push(...worker.requests.values());
+            }
+        }
+
+        const now = Date.now();
+        return requests
+            .filter(request => !filter.resourceTypes || filter.resourceTypes.includes(request.resourceType))
+            .filter(request => filter.maxAge === undefined || now - request.timestamp <= filter.maxAge)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Lists the pending XHR and fetch requests of a page, e.g. API calls
+     * @param page Puppeteer Page object
+     * @returns {TrackedRequest[]} The pending requests, the oldest first
+     */
+    public pendingFetches(page: Page): TrackedRequest[] {
+        return this.pending(page, { resourceTypes: FETCH_RESOURCE_TYPES });
+    }
+
+    /**
+     * Cancels the stalled XHR and fetch requests of a page: the ones still held by the interception, e.g.
+     * delayed by a route, fail before being sent, and the ones already sent are aborted by the page itself,
+     * like its own `AbortController` would. The document loads, the other resources and the requests of
+     * the service workers are never canceled, they stop counting once older than `stability.maxRequestAge`.
+     * @param page Puppeteer Page object
+     * @returns {Promise<void>}
+     */
+    public async cancelPending(page: Page): Promise<void> {
+        const requests = this.pages.get(page);
+        const stalled = Array.from(requests?.values() ?? [])
+            .filter(entry => FETCH_RESOURCE_TYPES.includes(entry.details.resourceType));
+        if (!requests || stalled.length === 0) {
             return;
         }
 
-        console.log(`Aborting ${instance.ongoingRequests.size} pending requests:`);
-        instance.ongoingRequests.forEach((details, url) => {
-            const duration = Date.now() - details.timestamp;
-            console.log(`- ${details.method} ${url}`);
-            console.log(`  Type: ${details.resourceType}, Duration: ${duration}ms`);
-        });
+        Logger.debug(`Cancelling ${stalled.length} pending requests:`);
+        const sent: TrackedRequest[] = [];
+        for (const { request, details } of stalled) {
+            if (request.isInterceptResolutionHandled()) {
+                sent.push(details);
+                continue;
+            }
+
+            try {
+                await request.abort('aborted');
+                requests.delete(details.id);
+                Logger.debug(`- ${details.method} ${details.url} (${details.resourceType}, ${Date.now() - details.timestamp}ms), held back`);
+            } catch (error) {
+                Logger.debug(`- ${details.method} ${details.url}: failed to cancel: ${error}`);
+            }
+        }
+        if (sent.length === 0) {
+            return;
+        }
+
+        // the page aborts its own requests, in whatever frame they were sent from
+        const aborted = new Set<string>();
+        for (const frame of page.frames()) {
+            if (frame.detached) {
+                continue;
+            }
+            const urls = await frame.evaluate(urls => {
+                const pending = (window as unknown as { __webcopilotFetches?: Set<{ url: string; abort: () => void }> }).__webcopilotFetches;
+                const abortedUrls: string[] = [];
+                for (const entry of Array.from(pending ?? [])) {
+                    if (urls.includes(entry.url)) {
+                        entry.abort();
+                        pending!.delete(entry);
+                        abortedUrls.push(entry.url);
+                    }
+                }
+                return abortedUrls;
+            }, sent.map(details => details.url)).catch(() => [] as string[]);
+            urls.forEach(url => aborted.add(url));
+        }
 
-        // Get all client handles
-        const client = await page.target().createCDPSession();
-        await client.send('Network.enable');
-        
-        // Abort all pending requests
-        await client.send('Network.setBlockedURLs', { urls: ['*'] });
-        
-        // Optional: Clear the blocked URLs afterward
-        await client.send('Network.setBlockedURLs', { urls: [] });
-
-        instance.ongoingRequests.clear();
+        for (const details of sent) {
+            const canceled = aborted.has(details.url);
+            if (canceled) {
+                requests.delete(details.id);
+            }
+            Logger.debug(`- ${details.method} ${details.url} (${details.resourceType}, ${Date.now() - details.timestamp}ms)${canceled ? '' : ', not found in the page, left pending'}`);
+        }
     }
 }
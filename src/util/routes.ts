@@ -0,0 +1,353 @@
+import * as fs from 'fs';
+import path from 'path';
+import { ErrorCode, HTTPRequest, ResourceType, ResponseForRequest } from 'puppeteer';
+import { Logger } from './logger';
+import { unquote } from './variables';
+
+/**
+ * How a matching request is answered: fulfilled with a fixture file or an inline body, failed
+ * with a network error, or sent to the network as is, in any case after the latency
+ */
+export interface RouteRule {
+    /** HTTP method, any method if undefined */
+    method?: string;
+    /** URL glob, e.g. `*://api.example.com/orders*`, or path glob when it starts with a slash, e.g. `/api/orders/*` */
+    url?: string;
+    /** Regular expression the URL must contain a match of, instead of the glob */
+    urlRegex?: string;
+    /** Resource types, e.g. `xhr` and `fetch`, any type if undefined */
+    resourceType?: ResourceType | ResourceType[];
+    /** Status of the response, 200 if undefined */
+    status?: number;
+    /** Headers of the response */
+    headers?: Record<string, string>;
+    /** Inline body of the response, objects are sent as JSON */
+    body?: string | object;
+    /** File the body of the response is read from */
+    fixture?: string;
+    /** Delay before the request is answered or sent, in milliseconds */
+    latency?: number;
+    /** Network error the request fails with, e.g. `connectionrefused` or `timedout` */
+    fail?: ErrorCode;
+}
+
+/**
+ * A rule ready to be matched
+ */
+interface CompiledRoute {
+    rule: RouteRule;
+    /** Whether a URL matches the glob or the regular expression */
+    matches: (url: URL) => boolean;
+    /** Absolute path of the fixture, if any */
+    fixture?: string;
+    /** Whether the rule comes from the script, as opposed to the config */
+    fromScript: boolean;
+}
+
+const ERROR_CODES: ErrorCode[] = [
+    'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse', 'connectionaborted',
+    'connectionclosed', 'connectionfailed', 'connectionrefused', 'connectionreset', 'internetdisconnected',
+    'namenotresolved', 'timedout', 'failed'
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.xml': 'application/xml',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf'
+};
+
+/**
+ * Compiles a URL glob, `*` matching any characters. A glob starting with a slash is a path glob,
+ * matched against the path of the URL, with or without its query and hash.
+ * @param glob URL glob, e.g. `*://api.example.com/*` or `/api/orders`
+ * @returns {(url: URL) => boolean} Whether a URL matches the glob
+ */
+export const compileUrlGlob = (glob: string): (url: URL) => boolean => {
+    const source = glob
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    const regex = new RegExp(`^${source}$`);
+    return glob.startsWith('/')
+        ? url => regex.test(url.pathname) || regex.test(`${url.pathname}${url.search}${url.hash}`)
+        : url => regex.test(url.href);
+};
+
+/**
+ * Checks whether a rule answers the requests itself, as opposed to failing or only delaying them
+ * @param rule The rule
+ * @returns {boolean} Whether the rule has a status, a body or a fixture
+ */
+const hasResponse = (rule: RouteRule): boolean =>
+    rule.status !== undefined || rule.body !== undefined || rule.fixture !== undefined;
+
+/**
+ * Describes a rule for the logs
+ * @param rule The rule
+ * @returns {string} e.g. `POST /api/orders`
+ */
+export const describeRoute = (rule: RouteRule): string =>
+    `${rule.method ? `${rule.method.toUpperCase()} ` : ''}${rule.url ?? `matching /${rule.urlRegex}/`}`;
+
+/**
+ * One part of the response of a mock step, e.g. `status 201`, `fixture fixtures/orders.json` or `body '{"id": 1}'`,
+ * an unquoted body runs to the end of the line
+ */
+const RESPONSE_PART = /^(?:status\s+(\d{3})|fixture\s+("[^"]*"|'[^']*'|\S+)|body\s+("[^"]*"|'[^']*'|.+))(?:\s+and\s+|$)/i;
+
+/**
+ * Parses the response of a mock step
+ * @param spec The response, e.g. `status 201 and body '{"id": 1}'`
+ * @returns {RouteRule | null} The status, body and fixture of the rule, null if the response can't be parsed
+ */
+export function parseMockResponse(spec: string): RouteRule | null {
+    const rule: RouteRule = {};
+    let rest = spec.trim();
+    while (rest !== '') {
+        const part = rest.match(RESPONSE_PART);
+        if (!part) {
+            return null;
+        }
+
+        if (part[1]) {
+            rule.status = Number(part[1]);
+        } else if (part[2]) {
+            rule.fixture = unquote(part[2]);
+        } else {
+            rule.body = unquote(part[3]);
+        }
+        rest = rest.slice(part[0].length);
+    }
+    return rule;
+}
+
+/**
+ * Route rules answering the matching requests of a script run in place of the network, e.g. to
+ * exercise error states or to run against a frontend whose backend isn't available. The rules
+ * of the script take precedence over the ones of the config, the latest first.
+ */
+export class Routes {
+    private routes: CompiledRoute[];
+    /** Requests answered or failed by a rule instead of the network */
+    private readonly mocked: WeakSet<HTTPRequest>;
+
+    constructor(rules: RouteRule[]) {
+        this.mocked = new WeakSet();
+        this.routes = rules.map((rule, index) => {
+            try {
+                return Routes.compile(rule, process.cwd(), false);
+            } catch (error) {
+                throw new Error(`Invalid route ${index + 1} in network.routes: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    /**
+     * Checks and compiles a rule
+     * @param rule The rule
+     * @param baseDir Directory the fixture path is relative to
+     * @param fromScript Whether the rule comes from the script
+     * @returns {CompiledRoute} The compiled rule
+     * @throws {Error} If the rule is invalid or its fixture doesn't exist
+     */
+    private static compile(rule: RouteRule, baseDir: string, fromScript: boolean): CompiledRoute {
+        if (!rule.url === !rule.urlRegex) {
+            throw new Error('a route needs either a url glob or a urlRegex');
+        }
+        if (rule.fail !== undefined && !ERROR_CODES.includes(rule.fail)) {
+            throw new Error(`unknown network error ${rule.fail}, use one of ${ERROR_CODES.join(', ')}`);
+        }
+        if (rule.fail !== undefined && hasResponse(rule)) {
+            throw new Error('a failing route can\'t have a response');
+        }
+        if (rule.body !== undefined && rule.fixture !== undefined) {
+            throw new Error('a route can\'t have both a body and a fixture');
+        }
+        if (rule.status !== undefined && (!Number.isInteger(rule.status) || rule.status < 100 || rule.status > 599)) {
+            throw new Error(`invalid status ${rule.status}`);
+        }
+
+        const fixture = rule.fixture !== undefined ? path.resolve(baseDir, rule.fixture) : undefined;
+        if (fixture && !fs.existsSync(fixture)) {
+            throw new Error(`fixture not found: ${fixture}`);
+        }
+
+        let matches: (url: URL) => boolean;
+        if (rule.url) {
+            matches = compileUrlGlob(rule.url);
+        } else {
+            try {
+                const regex = new RegExp(rule.urlRegex!);
+                matches = url => regex.test(url.href);
+            } catch (error) {
+                throw new Error(`invalid urlRegex ${rule.urlRegex}: ${error}`);
+            }
+        }
+
+        return { rule, matches, fixture, fromScript };
+    }
+
+    /**
+     * Adds a rule of the script, taking precedence over the previous ones
+     * @param rule The rule
+     * @param baseDir Directory the fixture path is relative to, the script's
+     * @throws {Error} If the rule is invalid or its fixture doesn't exist
+     */
+    public add(rule: RouteRule, baseDir: string): void {
+        this.routes.unshift(Routes.compile(rule, baseDir, true));
+        Logger.info(`Route added: ${describeRoute(rule)}`);
+    }
+
+    /**
+     * Removes the rules of the script, the ones of the config are kept
+     * @returns {number} Number of rules removed
+     */
+    public clear(): number {
+        const count = this.routes.filter(route => route.fromScript).length;
+        this.routes = this.routes.filter(route => !route.fromScript);
+        return count;
+    }
+
+    /**
+     * Finds the first rule matching a request
+     * @param request Puppeteer HTTPRequest object
+     * @param method Method to match, defaults to the method of the request
+     * @returns {CompiledRoute | undefined} The rule, undefined if no rule matches
+     */
+    private find(request: HTTPRequest, method: string = request.method()): CompiledRoute | undefined {
+        let url: URL;
+        try {
+            url = new URL(request.url());
+        } catch {
+            return undefined;
+        }
+
+        return this.routes.find(route => {
+            const { rule } = route;
+            const types = rule.resourceType === undefined ? undefined : ([] as ResourceType[]).concat(rule.resourceType);
+            if (rule.method && rule.method.toUpperCase() !== method.toUpperCase()) {
+                return false;
+            }
+            if (types && !types.includes(request.resourceType())) {
+                return false;
+            }
+            return route.matches(url);
+        });
+    }
+
+    /**
+     * Answers the request if a rule matches it
+     * @param request Puppeteer HTTPRequest object, intercepted and not handled yet
+     * @returns {boolean} Whether a rule matched, the request is then answered asynchronously
+     */
+    public handle(request: HTTPRequest): boolean {
+        const route = this.find(request);
+        if (route) {
+            this.answer(request, route).catch(error => {
+                Logger.warn(`Failed to answer ${request.method()} ${request.url()}: ${error}`);
+            });
+            return true;
+        }
+
+        // the CORS preflight of a mocked cross-origin request is answered too, the backend may not be there
+        const preflightMethod = request.headers()['access-control-request-method'];
+        const preflighted = request.method() === 'OPTIONS' && preflightMethod ? this.find(request, preflightMethod) : undefined;
+        if (preflighted && hasResponse(preflighted.rule)) {
+            this.mocked.add(request);
+            request.respond({
+                status: 204,
+                headers: {
+                    'access-control-allow-origin': request.headers()['origin'] ?? '*',
+                    'access-control-allow-methods': preflightMethod,
+                    'access-control-allow-headers': request.headers()['access-control-request-headers'] ?? '*',
+                    'access-control-allow-credentials': 'true'
+                }
+            }).catch(error => Logger.warn(`Failed to answer the preflight of ${request.url()}: ${error}`));
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Checks whether a rule answered or failed a request instead of the network
+     * @param request Puppeteer HTTPRequest object
+     * @returns {boolean} Whether the request was mocked, false if it was only delayed
+     */
+    public isMocked(request: HTTPRequest): boolean {
+        return this.mocked.has(request);
+    }
+
+    /**
+     * Answers a request as its rule says
+     * @param request Puppeteer HTTPRequest object
+     * @param route The matching rule
+     * @returns {Promise<void>}
+     */
+    private async answer(request: HTTPRequest, route: CompiledRoute): Promise<void> {
+        const { rule } = route;
+        if (rule.latency) {
+            await new Promise(resolve => setTimeout(resolve, rule.latency));
+            // the runner may have canceled the stalled request meanwhile
+            if (request.isInterceptResolutionHandled()) {
+                return;
+            }
+        }
+
+        if (rule.fail !== undefined) {
+            this.mocked.add(request);
+            Logger.debug(`Route failed ${request.method()} ${request.url()} with ${rule.fail}`);
+            await request.abort(rule.fail);
+            return;
+        }
+
+        if (!hasResponse(rule)) {
+            // only delayed
+            await request.continue();
+            return;
+        }
+
+        const response: Partial<ResponseForRequest> = {
+            status: rule.status ?? 200,
+            headers: {
+                // a mocked cross-origin API must still pass the CORS checks of the page
+                'access-control-allow-origin': request.headers()['origin'] ?? '*',
+                'access-control-allow-credentials': 'true',
+                ...rule.headers
+            }
+        };
+        const hasContentType = Object.keys(rule.headers ?? {}).some(name => name.toLowerCase() === 'content-type');
+        if (route.fixture) {
+            response.body = fs.readFileSync(route.fixture);
+            if (!hasContentType) {
+                response.contentType = CONTENT_TYPES[path.extname(route.fixture).toLowerCase()] ?? 'application/octet-stream';
+            }
+        } else if (typeof rule.body === 'object') {
+            response.body = JSON.stringify(rule.body);
+            if (!hasContentType) {
+                response.contentType = 'application/json';
+            }
+        } else if (rule.body !== undefined) {
+            response.body = rule.body;
+            if (!hasContentType) {
+                response.contentType = /^\s*[[{]/.test(rule.body) ? 'application/json' : 'text/plain';
+            }
+        }
+
+        this.mocked.add(request);
+        Logger.debug(`Route fulfilled ${request.method()} ${request.url()} with ${response.status}`);
+        await request.respond(response);
+    }
+}
@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { Browser, BrowserContext, Page } from 'puppeteer';
+import { Logger } from './logger';
+import { Requests } from './requests';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+import { ScriptReport, ScriptResult } from './report';
+import { Variables } from './variables';
+import { preparePage } from './browser';
+import { executeCommand } from './utilities';
+
+/**
+ * A non-empty line of a script file
+ */
+export interface ScriptLine {
+    /** 1-based line number in the script file */
+    line: number;
+    /** The trimmed line */
+    command: string;
+}
+
+/**
+ * Reads the non-empty lines of a script file
+ * @param scriptPath Path of the script file
+ * @returns {ScriptLine[]} Trimmed script lines
+ */
+export const readScriptLines = (scriptPath: string): ScriptLine[] => {
+    const script = fs.readFileSync(scriptPath, 'utf8');
+
+    // trim the lines, skip the empty ones
+    return script.split('\n')
+        .map((line, index) => ({ line: index + 1, command: line.trim() }))
+        .filter(scriptLine => scriptLine.command !== '');
+};
+
+/**
+ * Prefix of the script lines whose failure is recorded without stopping the script
+ */
+const SOFT_PREFIX = /^soft:\s*/i;
+
+/**
+ * Executes the script line by line, recording each line as a step. The failures of the soft steps
+ * are recorded and the script goes on, it fails once every line was executed.
+ * @param context Script context
+ * @returns {Promise<void>}
+ * @throws {StepFailedError} If a step or a soft step failed
+ */
+export async function runScript(context: ScriptContext): Promise<void> {
+    const scriptLines = readScriptLines(context.scriptPath);
+    const softFailures: string[] = [];
+
+    for (const [index, scriptLine] of scriptLines.entries()) {
+        const step = context.report.startStep(scriptLine.line, scriptLine.command);
+        step.soft = SOFT_PREFIX.test(scriptLine.command) || undefined;
+        // a dialog opened by this step is handled by the next one, if it is a dialog step
+        context.nextCommand = scriptLines[index + 1]?.command.replace(SOFT_PREFIX, '') ?? null;
+
+        try {
+            await executeCommand(context, scriptLine.command.replace(SOFT_PREFIX, ''));
+            // the errors the page threw during the step may fail it, as the console policy says
+            context.console.checkStep();
+            context.report.finishStep('passed');
+        } catch (error) {
+            if (step.soft && error instanceof StepFailedError) {
+                context.report.finishStep('failed', error.message);
+                Logger.error(`Soft step failed, moving on: ${error.message}`);
+                softFailures.push(`line ${scriptLine.line}: ${error.message}`);
+                continue;
+            }
+
+            context.report.finishStep(
+                error instanceof StepFailedError ? 'failed' : 'errored',
+                error instanceof Error ? error.message : String(error)
+            );
+
+            // the remaining lines are never executed
+            for (const skipped of scriptLines.slice(index + 1)) {
+                context.report.skipStep(skipped.line, skipped.command);
+            }
+            throw error;
+        }
+    }
+
+    if (softFailures.length > 0) {
+        throw new StepFailedError(`${softFailures.length} soft step${softFailures.length === 1 ? '' : 's'} failed: ${softFailures.join('; ')}`);
+    }
+}
+
+/**
+ * Runs a script in the given page, never throws
+ * @param page Puppeteer Page object, already prepared with its request tracking
+ * @param requests Request tracking of the page
+ * @param scriptPath Path of the script file
+ * @param variables Variables and secrets available to the script, copied for the run
+ * @returns {Promise<ScriptResult>} Outcome of the run
+ */
+export async function runScriptInPage(page: Page, requests: Requests, scriptPath: string, variables: Variables): Promise<ScriptResult> {
+    const startTime = Date.now();
+    const context = new ScriptContext(page, requests, scriptPath, variables.clone());
+
+    let result: ScriptResult;
+    try {
+        await context.downloads.start(page);
+        await runScript(context);
+
+        Logger.info(`Script passed: ${scriptPath}`);
+        result = context.report.toResult(scriptPath, 'passed', startTime, context.variables.toJSON());
+    } catch (error) {
+        const failed = error instanceof StepFailedError;
+        Logger.error(`Script ${failed ? 'failed' : 'errored'}: ${scriptPath}: ${error}`);
+        if (!failed) {
+            Logger.error(error instanceof Error ? error.stack || '' : '');
+        }
+
+        result = context.report.toResult(
+            scriptPath,
+            failed ? 'failed' : 'errored',
+            startTime,
+            context.variables.toJSON(),
+            error instanceof Error ? error.message : String(error)
+        );
+    }
+
+    // the result of the run is kept whatever happens to its files
+    try {
+        await context.network.writeHar(result.steps.map(step => step.command));
+    } catch (error) {
+        Logger.warn(`Failed to write the network capture: ${error}`);
+    }
+    try {
+        await context.downloads.stop();
+    } catch (error) {
+        Logger.warn(`Failed to stop capturing the downloads: ${error}`);
+    }
+    // the retention settings apply once the reports are written
+    result.runDir = context.artifacts.runDir ?? undefined;
+    return result;
+}
+
+/**
+ * Runs a script in its own incognito browser context, never throws
+ * @param browser The shared browser
+ * @param scriptPath Path of the script file
+ * @param variables Variables and secrets available to the script
+ * @returns {Promise<ScriptResult>} Outcome of the run
+ */
+export async function runScriptInNewContext(browser: Browser, scriptPath: string, variables: Variables): Promise<ScriptResult> {
+    const startTime = Date.now();
+    let browserContext: BrowserContext | undefined;
+
+    try {
+        Logger.info(`Running script: ${scriptPath}`);
+
+        browserContext = await browser.createBrowserContext();
+        const page = await browserContext.newPage();
+        const requests = new Requests();
+        await preparePage(page, requests);
+
+        return await runScriptInPage(page, requests, scriptPath, variables);
+    } catch (error) {
+        Logger.error(`Script errored: ${scriptPath}: ${error}`);
+        return new ScriptReport().toResult(
+            scriptPath,
+            'errored',
+            startTime,
+            {},
+            error instanceof Error ? error.message : String(error)
+        );
+    } finally {
+        await browserContext?.close().catch(() => {});
+    }
+}
+
+/**
+ * Finds the script files matching the given glob patterns
+ * @param patterns Glob patterns
+ * @returns {Promise<string[]>} Sorted, de-duplicated script paths
+ */
+export const discoverScripts = async (patterns: string[]): Promise<string[]> => {
+    const scriptPaths = await fg(patterns, { onlyFiles: true, unique: true });
+    return scriptPaths.sort();
+};
+
+/**
+ * Runs the scripts concurrently, continuing past failing scripts
+ * @param browser The shared browser
+ * @param scriptPaths Paths of the script files
+ * @param workers Maximum number of scripts running at the same time
+ * @param variables Variables and secrets available to the scripts
+ * @returns {Promise<ScriptResult[]>} Outcome of each script, in the order of scriptPaths
+ */
+export async function runScripts(browser: Browser, scriptPaths: string[], workers: number, variables: Variables): Promise<ScriptResult[]> {
+    const results: ScriptResult[] = new Array(scriptPaths.length);
+    let next = 0;
+
+    // each worker picks the next pending script until none is left
+    const worker = async () => {
+        while (next < scriptPaths.length) {
+            const index = next++;
+            results[index] = await runScriptInNewContext(browser, scriptPaths[index], variables);
+        }
+    };
+
+    await Promise.all(
+        Array.from({ length: Math.max(1, Math.min(workers, scriptPaths.length)) }, worker)
+    );
+
+    return results;
+}
+
+/**
+ * Logs a summary of the script runs
+ * @param results Outcome of each script
+ */
+export const printSummary = (results: ScriptResult[]): void => {
+    const count = (status: ScriptResult['status']) => results.filter(result => result.status === status).length;
+
+    Logger.log('Summary:');
+    for (const result of results) {
+        const line = `${result.status.toUpperCase()} ${result.scriptPath} (${(result.duration / 1000).toFixed(1)}s)`;
+        if (result.status === 'passed') {
+            Logger.info(line);
+        } else {
+            Logger.error(`${line}: ${result.error}`);
+        }
+    }
+    Logger.log(`${results.length} scripts: ${count('passed')} passed, ${count('failed')} failed, ${count('errored')} errored`);
+};
@@ -0,0 +1,163 @@
+import config from 'config';
+import { Page } from 'puppeteer';
+import { Logger } from './logger';
+import { Requests } from './requests';
+
+/**
+ * Page stability settings
+ */
+interface StabilityConfig {
+    /** Speed profile setting the cosmetic pauses */
+    speed: Speed;
+    /** Longest wait for the page to settle, in milliseconds */
+    timeout: number;
+    /** How long the DOM, the layout and the network must stay quiet, in milliseconds */
+    quietTime: number;
+    /** Requests pending for longer than this, in milliseconds, are ignored, e.g. long polling */
+    maxRequestAge: number;
+}
+
+/**
+ * Speed profiles: `demo` shows what the script does, `ci` runs as fast as the page allows
+ */
+export type Speed = 'demo' | 'ci';
+
+/**
+ * Cosmetic pauses of a speed profile, the waits for the page to settle are the same in every profile
+ */
+interface SpeedProfile {
+    /** How long the pointer stays on the target before the action, in milliseconds, 0 for no pointer */
+    pointerDuration: number;
+    /** Shortest and longest delay between two typed characters, in milliseconds */
+    typingDelay: [number, number];
+    /** How long the browser stays open once the script is over, in milliseconds */
+    closeDelay: number;
+}
+
+const SPEED_PROFILES: Record<Speed, SpeedProfile> = {
+    demo: { pointerDuration: 2000, typingDelay: [50, 200], closeDelay: 5000 },
+    ci: { pointerDuration: 0, typingDelay: [0, 0], closeDelay: 0 }
+};
+
+/**
+ * How often the page is checked while waiting for it to settle
+ */
+const POLL_INTERVAL = 100;
+
+/**
+ * Reasons a page isn't stable yet
+ */
+export type Unsettled = 'document' | 'network' | 'dom' | 'layout' | 'animations' | 'fonts';
+
+/**
+ * Gets the speed profile set by the `stability.speed` setting
+ * @returns {SpeedProfile} The speed profile, `demo` if the setting is unknown
+ */
+export function getSpeedProfile(): SpeedProfile {
+    const { speed } = config.get<StabilityConfig>('stability');
+    if (!(speed in SPEED_PROFILES)) {
+        Logger.warn(`Unknown speed profile ${speed}, using demo`);
+        return SPEED_PROFILES.demo;
+    }
+    return SPEED_PROFILES[speed];
+}
+
+/**
+ * Waits for the page to settle: the document loaded, no request in flight, no DOM mutation nor layout
+ * shift for the quiet time, no finite animation running and the fonts loaded. Never throws, a page
+ * still changing at the timeout is logged and the script moves on.
+ * @param page Puppeteer Page object
+ * @param timeout Longest wait in milliseconds, defaults to the `stability.timeout` setting
+ * @returns {Promise<Unsettled[]>} What was still unsettled at the timeout, empty if the page settled
+ */
+export async function waitForStable(page: Page, timeout?: number): Promise<Unsettled[]> {
+    const settings = config.get<StabilityConfig>('stability');
+    const start = Date.now();
+    const deadline = start + (timeout ?? settings.timeout);
+    const requests = Requests.of(page);
+    // a request started by the action may not be sent yet, the network must stay quiet from the start of the wait
+    let networkQuietSince = start;
+
+    for (;;) {
+        const state = await page.evaluate(() => {
+            const global = window as unknown as { __webcopilotStability?: { lastMutation: number; lastLayoutShift: number } };
+            if (!global.__webcopilotStability) {
+                const observed = { lastMutation: performance.now(), lastLayoutShift: 0 };
+                new MutationObserver(() => {
+                    observed.lastMutation = performance.now();
+                }).observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+                try {
+                    new PerformanceObserver(list => {
+                        for (const entry of list.getEntries()) {
+                            observed.lastLayoutShift = Math.max(observed.lastLayoutShift, entry.startTime + entry.duration);
+                        }
+                    }).observe({ type: 'layout-shift', buffered: true });
+                } catch {
+                    // layout shifts aren't reported by every browser
+                }
+                global.__webcopilotStability = observed;
+            }
+
+            const observed = global.__webcopilotStability;
+            const now = performance.now();
+            // infinite animations, e.g. spinners of background widgets, never end and are ignored
+            const animations = document.getAnimations().filter(animation => animation.playState === 'running'
+                && animation.effect?.getComputedTiming().endTime !== Infinity).length;
+            return {
+                readyState: document.readyState,
+                sinceMutation: now - observed.lastMutation,
+                sinceLayoutShift: now - observed.lastLayoutShift,
+                animations,
+                fontsLoaded: document.fonts.status === 'loaded'
+            };
+        }).catch(() => null); // the page is navigating
+
+        const now = Date.now();
+        if (requests && requests.pending(page, { maxAge: settings.maxRequestAge }).length > 0) {
+            networkQuietSince = now;
+        }
+
+        const unsettled: Unsettled[] = [];
+        if (!state || state.readyState === 'loading') {
+            unsettled.push('document');
+        }
+        if (now - networkQuietSince < settings.quietTime) {
+            unsettled.push('network');
+        }
+        if (state && state.sinceMutation < settings.quietTime) {
+            unsettled.push('dom');
+        }
+        if (state && state.sinceLayoutShift < settings.quietTime) {
+            unsettled.push('layout');
+        }
+        if (state && state.animations > 0) {
+            unsettled.push('animations');
+        }
+        if (state && !state.fontsLoaded) {
+            unsettled.push('fonts');
+        }
+
+        if (unsettled.length === 0) {
+            Logger.debug(`Page stable after ${now - start}ms`);
+            return unsettled;
+        }
+        if (now >= deadline) {
+            Logger.debug(`Page not stable after ${now - start}ms, still changing: ${unsettled.join(', ')}`);
+            return unsettled;
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
+
+/**
+ * Waits for the next frame of the page to be painted, e.g. so a change of the DOM shows on a screenshot
+ * @param page Puppeteer Page object
+ * @returns {Promise<void>}
+ */
+export async function waitForPaint(page: Page): Promise<void> {
+    // the callback of the second animation frame runs once the first one is painted, a hidden tab paints no frame at all
+    await page.evaluate(() => new Promise<void>(resolve => {
+        requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+        setTimeout(resolve, 1000);
+    })).catch(() => {});
+}
@@ -0,0 +1,300 @@
+import { Logger } from './logger';
+import { ScriptContext } from './context';
+import { matchScreenshot } from './visual';
+import { TabSelector } from './tabs';
+import { unquote } from './variables';
+import { DIALOG_STEP_PATTERN } from './dialogs';
+import { StepFailedError } from './errors';
+import { parseMockResponse, RouteRule } from './routes';
+import {
+    assertCount, assertExists, assertPageText, assertValue, Comparison, CountComparison,
+    getComparableUrl, getCookie, getStorageItem
+} from './assertions';
+
+/**
+ * A script step executed directly, without calling the LLM
+ */
+interface NativeStep {
+    /** Pattern the script line must fully match */
+    pattern: RegExp;
+    /**
+     * Executes the step
+     * @param context Script context
+     * @param match Match of the pattern against the script line
+     * @returns {Promise<void | false>} False to leave the line to the LLM, e.g. a tab of the page rather than of the browser
+     */
+    execute(context: ScriptContext, match: RegExpMatchArray): Promise<void | false>;
+}
+
+/**
+ * Requests a network step applies to, e.g. `GET /api/orders`, `requests to /api/products?page=*` or `requests matching /orders\/\d+/`
+ */
+const ROUTE_TARGET = '(?:(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\\s+)?(?:(?:all\\s+)?requests?\\s+)?(?:to\\s+)?(matching\\s+)?(\\S*[/*]\\S*)';
+
+/**
+ * Adds a route rule of a network step
+ * @param context Script context
+ * @param match Match of the step, the method, `matching` and the URL pattern first
+ * @param rule What the route does with the requests
+ * @throws {StepFailedError} If the rule is invalid or its fixture doesn't exist
+ */
+const addRoute = (context: ScriptContext, match: RegExpMatchArray, rule: RouteRule): void => {
+    const target = context.variables.resolve(unquote(match[3]));
+    const regex = target.match(/^\/(.+)\/$/);
+    try {
+        context.requests.routes.add({
+            ...rule,
+            method: match[1]?.toUpperCase(),
+            ...(match[2] ? { urlRegex: regex ? regex[1] : target } : { url: target })
+        }, context.scriptDir);
+    } catch (error) {
+        throw new StepFailedError(`Invalid network mock: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/**
+ * A quoted value of an assertion, an unquoted one is natural language left to the LLM, e.g. `expect the page to contain a login form`
+ */
+const QUOTED = '("[^"]*"|\'[^\']*\')';
+
+/**
+ * A quoted value of an assertion, or a regular expression written as `/source/flags`
+ */
+const QUOTED_OR_REGEX = '("[^"]*"|\'[^\']*\'|\\/.+\\/[a-z]*)';
+
+const NATIVE_STEPS: NativeStep[] = [
+    {
+        // set name = value
+        pattern: /^set\s+([A-Za-z_][\w.-]*)\s*=\s*(.*)$/i,
+        async execute(context, match) {
+            // secret placeholders are kept, they are only resolved when the value is typed
+            const value = context.variables.resolve(unquote(match[2]));
+            context.variables.set(match[1], value);
+            Logger.info(`Variable set: ${match[1]} = ${value}`);
+        }
+    },
+    {
+        // expect screenshot matches "name"
+        pattern: /^expect\s+(?:the\s+)?screenshot\s+(?:to\s+)?match(?:es)?\s+(.+)$/i,
+        async execute(context, match) {
+            await matchScreenshot(context, context.variables.resolve(unquote(match[1])));
+        }
+    },
+    {
+        // switch to the new tab, switch back to the previous tab, switch to tab 2, switch to the tab "Checkout"
+        pattern: /^switch\s+(?:back\s+)?to\s+(?:the\s+)?(?:(new|newest|latest|previous|first|original|main)\s+(?:tab|window|popup)|(?:tab|window|popup)\s+(.+)|(popup))$/i,
+        async execute(context, match) {
+            let selector: TabSelector;
+            if (match[1]) {
+                const which = match[1].toLowerCase();
+                selector = which === 'previous' ? 'previous' : ['first', 'original', 'main'].includes(which) ? 1 : 'new';
+            } else if (match[2]) {
+                const target = context.variables.resolve(unquote(match[2]));
+                // a tab widget of the page, e.g. switch to the tab "Reviews", is left to the LLM
+                if (!/^\d+$/.test(target) && !await context.tabs.find(target)) {
+                    return false;
+                }
+                selector = /^\d+$/.test(target) ? Number(target) : target;
+            } else {
+                selector = 'new';
+            }
+            await context.tabs.switchTo(selector);
+        }
+    },
+    {
+        // expect the url to contain "/checkout", expect the url not to be "https://example.com/login"
+        pattern: /^expect\s+(?:the\s+)?(?:page\s+)?url\s+(not\s+to|to\s+not|to)\s+(be|equal|contain|match)\s+(.+)$/i,
+        async execute(context, match) {
+            const expected = context.variables.resolve(unquote(match[3]));
+            const actual = getComparableUrl(context.page, expected);
+            assertValue('the URL', actual, match[2].toLowerCase() as Comparison, expected, /not/i.test(match[1]));
+            Logger.info(`URL checked: ${actual}`);
+        }
+    },
+    {
+        // expect the title to contain "Checkout"
+        pattern: new RegExp(`^expect\\s+(?:the\\s+)?(?:page\\s+)?title\\s+(not\\s+to|to\\s+not|to)\\s+(be|equal|contain|match)\\s+${QUOTED_OR_REGEX}$`, 'i'),
+        async execute(context, match) {
+            const actual = await context.page.title();
+            assertValue('the title', actual, match[2].toLowerCase() as Comparison, context.variables.resolve(unquote(match[3])), /not/i.test(match[1]));
+            Logger.info(`Title checked: ${actual}`);
+        }
+    },
+    {
+        // expect the page to contain "Order placed", expect the page not to contain "Error"
+        pattern: new RegExp(`^expect\\s+(?:the\\s+)?page(?:\\s+text)?\\s+(not\\s+to|to\\s+not|to)\\s+contain\\s+${QUOTED}$`, 'i'),
+        async execute(context, match) {
+            const expected = context.variables.resolve(unquote(match[2]));
+            await assertPageText(context.page, expected, /not/i.test(match[1]));
+            Logger.info(`Page text checked: ${expected}`);
+        }
+    },
+    {
+        // expect ".cart-item" to match 3 elements, expect "li.result" to match at least 1 element
+        pattern: new RegExp(`^expect\\s+(?:the\\s+)?(?:selector\\s+)?${QUOTED}\\s+to\\s+match\\s+(exactly\\s+|at\\s+least\\s+|at\\s+most\\s+|more\\s+than\\s+|fewer\\s+than\\s+|less\\s+than\\s+)?(\\d+|no)\\s+elements?$`, 'i'),
+        async execute(context, match) {
+            const selector = context.variables.resolve(unquote(match[1]));
+            const comparison = (match[2] || 'exactly').trim().toLowerCase().replace(/\s+/g, ' ').replace('less than', 'fewer than') as CountComparison;
+            const expected = match[3].toLowerCase() === 'no' ? 0 : Number(match[3]);
+            await assertCount(context.page, selector, comparison, expected);
+            Logger.info(`Elements matching ${selector} counted`);
+        }
+    },
+    {
+        // expect the cookie "session" to exist, expect the cookie "theme" to be "dark"
+        pattern: /^expect\s+(?:the\s+)?cookie\s+(.+?)\s+(not\s+to|to\s+not|to)\s+(?:(exist)|(be|equal|contain|match)\s+(.+))$/i,
+        async execute(context, match) {
+            const name = context.variables.resolve(unquote(match[1]));
+            const actual = await getCookie(context.page, name);
+            const negated = /not/i.test(match[2]);
+            if (match[3]) {
+                assertExists(`the cookie "${name}"`, actual, negated);
+            } else {
+                assertValue(`the cookie "${name}"`, actual, match[4].toLowerCase() as Comparison, context.variables.resolve(unquote(match[5])), negated);
+            }
+            Logger.info(`Cookie ${name} checked`);
+        }
+    },
+    {
+        // expect localStorage "cartId" to be "42", expect the session storage item "token" to exist
+        pattern: /^expect\s+(?:the\s+)?(local|session)\s*storage(?:\s+(?:item|key))?\s+(.+?)\s+(not\s+to|to\s+not|to)\s+(?:(exist)|(be|equal|contain|match)\s+(.+))$/i,
+        async execute(context, match) {
+            const storage = match[1].toLowerCase() as 'local' | 'session';
+            const key = context.variables.resolve(unquote(match[2]));
+            const actual = await getStorageItem(context.page, storage, key);
+            const negated = /not/i.test(match[3]);
+            const subject = `the ${storage} storage item "${key}"`;
+            if (match[4]) {
+                assertExists(subject, actual, negated);
+            } else {
+                assertValue(subject, actual, match[5].toLowerCase() as Comparison, context.variables.resolve(unquote(match[6])), negated);
+            }
+            Logger.info(`${storage === 'local' ? 'Local' : 'Session'} storage item ${key} checked`);
+        }
+    },
+    {
+        // accept the confirmation dialog, dismiss the alert, accept the prompt with "Alice"
+        pattern: DIALOG_STEP_PATTERN,
+        async execute(context, match) {
+            await context.dialogs.executeStep(match[0]);
+        }
+    },
+    {
+        // expect the dialog message to be "Are you sure?", expect the alert to say "Saved"
+        pattern: /^expect\s+(?:the\s+)?(?:last\s+)?(?:dialog|alert|confirm(?:ation)?|prompt)(?:\s+dialog)?(?:\s+message)?\s+to\s+(be|say|contain)\s+(.+)$/i,
+        async execute(context, match) {
+            const dialog = context.dialogs.last;
+            if (!dialog) {
+                throw new StepFailedError('No dialog was opened');
+            }
+
+            const expected = context.variables.resolve(unquote(match[2]));
+            const matches = match[1].toLowerCase() === 'contain'
+                ? dialog.message.includes(expected)
+                : dialog.message.trim() === expected.trim();
+            if (!matches) {
+                throw new StepFailedError(`Expected the dialog message to ${match[1].toLowerCase()} "${expected}", got "${dialog.message}"`);
+            }
+            Logger.info(`Dialog message matches: ${dialog.message}`);
+        }
+    },
+    {
+        // expect a file named *.csv to be downloaded
+        pattern: /^expect\s+(?:a|the)\s+(?:file|download)\s+(?:named\s+|called\s+)?(.+?)\s+to\s+be\s+downloaded$/i,
+        async execute(context, match) {
+            const download = await context.downloads.expect(context.variables.resolve(unquote(match[1])));
+            Logger.info(`File ${download.filename} downloaded to ${download.path}`);
+        }
+    },
+    {
+        // expect no JavaScript errors, expect no console errors
+        pattern: /^expect\s+no\s+(javascript|js|page|uncaught|console)\s+errors?$/i,
+        async execute(context, match) {
+            const includeConsole = match[1].toLowerCase() === 'console';
+            context.console.expectNoErrors(includeConsole);
+            Logger.info(`No ${includeConsole ? 'console' : 'JavaScript'} errors`);
+        }
+    },
+    {
+        // expect no requests to fail, expect no failed requests
+        pattern: /^expect\s+no\s+(?:(?:network\s+)?requests?\s+to\s+(?:have\s+)?fail(?:ed)?|failed\s+(?:network\s+)?requests?)$/i,
+        async execute(context) {
+            context.network.expectNoFailures();
+            Logger.info('No request failed');
+        }
+    },
+    {
+        // expect a POST to /api/orders returning 201, expect a request to */api/products* to return 2xx, expect no GET to /api/cart
+        pattern: /^expect\s+(an?|no)\s+(?:(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+)?(?:requests?\s+)?to\s+(\S*[/*]\S*)(?:\s+(?:returning|to\s+return|with)\s+(?:(?:a\s+)?status\s+)?(\d{3}|[1-5]xx))?$/i,
+        async execute(context, match) {
+            const method = match[2]?.toUpperCase();
+            const glob = context.variables.resolve(unquote(match[3]));
+            if (match[1].toLowerCase() === 'no') {
+                context.network.expectNoRequest(method, glob);
+                Logger.info(`No ${method ? `${method} ` : ''}request to ${glob}`);
+                return;
+            }
+
+            const entry = await context.network.expectRequest(method, glob, match[4]);
+            Logger.info(`Request found: ${entry.method} ${entry.url} ${entry.status}`);
+        }
+    },
+    {
+        // mock GET /api/orders with fixture fixtures/orders.json, mock POST */api/orders with status 201 and body '{"id": 1}'
+        pattern: new RegExp(`^mock\\s+${ROUTE_TARGET}\\s+with\\s+(.+)$`, 'i'),
+        async execute(context, match) {
+            const response = parseMockResponse(context.variables.resolve(match[4]));
+            if (!response) {
+                throw new StepFailedError(`Invalid mocked response: ${match[4]}, use status, fixture or body`);
+            }
+            addRoute(context, match, response);
+        }
+    },
+    {
+        // delay requests to */api/* by 2 seconds, delay GET /api/search by 500ms
+        pattern: new RegExp(`^delay\\s+${ROUTE_TARGET}\\s+by\\s+(\\d+(?:\\.\\d+)?)\\s*(ms|milliseconds?|s|seconds?)$`, 'i'),
+        async execute(context, match) {
+            const latency = Number(match[4]) * (match[5].toLowerCase().startsWith('s') ? 1000 : 1);
+            addRoute(context, match, { latency: Math.round(latency) });
+        }
+    },
+    {
+        // fail requests to */api/orders, fail POST /api/orders with timedout
+        pattern: new RegExp(`^fail\\s+${ROUTE_TARGET}(?:\\s+with\\s+(?:an?\\s+)?([a-z]+)(?:\\s+error)?)?$`, 'i'),
+        async execute(context, match) {
+            addRoute(context, match, { fail: (match[4] ?? 'failed').toLowerCase() as RouteRule['fail'] });
+        }
+    },
+    {
+        // clear the network mocks
+        pattern: /^(?:clear|remove)\s+(?:all\s+)?(?:the\s+)?(?:network\s+)?(?:mocks|routes)$/i,
+        async execute(context) {
+            const count = context.requests.routes.clear();
+            Logger.info(`${count} network mock${count === 1 ? '' : 's'} removed`);
+        }
+    },
+    {
+        // close the tab, close the current tab, a popup or a window usually being a modal of the page, left to the LLM
+        pattern: /^close\s+(?:the\s+)?(?:current\s+|new\s+)?(?:browser\s+)?tab$/i,
+        async execute(context) {
+            await context.tabs.closeCurrent();
+        }
+    },
+];
+
+/**
+ * Executes the script line if it is a native step
+ * @param context Script context
+ * @param command The script line
+ * @returns {Promise<boolean>} Whether the line was a native step
+ */
+export async function executeNativeStep(context: ScriptContext, command: string): Promise<boolean> {
+    for (const step of NATIVE_STEPS) {
+        const match = command.match(step.pattern);
+        if (match && await step.execute(context, match) !== false) {
+            return true;
+        }
+    }
+
+    return false;
+}
@@ -0,0 +1,195 @@
+import { Page, Target } from 'puppeteer';
+import { Logger } from './logger';
+import { Requests } from './requests';
+import { StepFailedError } from './errors';
+import { preparePage } from './browser';
+
+/**
+ * How long to wait for a tab to be opened, e.g. by the click of the previous step
+ */
+const NEW_TAB_TIMEOUT = 10000;
+
+/**
+ * How long to wait for a tab switched to to finish loading
+ */
+const LOAD_TIMEOUT = 10000;
+
+/**
+ * Which tab to switch to: the newly opened one, the one active before the current one, a 1-based
+ * index in the order the tabs were opened, or a text the title or the URL of the tab contains
+ */
+export type TabSelector = 'new' | 'previous' | number | string;
+
+/**
+ * Tracks the tabs and popups of a script run, the script runs against the current one
+ */
+export class Tabs {
+    /** Open tabs, in the order they were opened */
+    private readonly pages: Page[];
+    /** Tabs the script switched to, the current one last */
+    private readonly history: Page[];
+    /** Tabs opened since the script last switched to a new one */
+    private readonly unvisited: Page[];
+    /** Tabs being opened and prepared */
+    private readonly pending: Set<Promise<void>>;
+    private readonly requests: Requests;
+    /** Called with every tab opened by the page, once it is prepared */
+    private readonly onOpened: (page: Page) => void;
+
+    constructor(page: Page, requests: Requests, onOpened: (page: Page) => void) {
+        this.pages = [page];
+        this.history = [page];
+        this.unvisited = [];
+        this.pending = new Set();
+        this.requests = requests;
+        this.onOpened = onOpened;
+
+        page.once('close', () => this.forget(page));
+        page.browserContext().on('targetcreated', target => this.opened(target));
+    }
+
+    /**
+     * The tab the script runs against
+     */
+    public get current(): Page {
+        return this.history[this.history.length - 1];
+    }
+
+    /**
+     * Registers a tab opened by the page, e.g. by a link with a `_blank` target or an OAuth popup
+     * @param target The created target
+     */
+    private opened(target: Target): void {
+        if (target.type() !== 'page') {
+            return;
+        }
+
+        const tracking = target.page().then(async page => {
+            if (!page || this.pages.includes(page)) {
+                return;
+            }
+
+            // the listeners come first, a popup may open a dialog or send requests right away
+            this.onOpened(page);
+            // the requests of the new tab are tracked like the ones of the first tab
+            await preparePage(page, this.requests);
+            this.pages.push(page);
+            this.unvisited.push(page);
+            page.once('close', () => this.forget(page));
+            Logger.info(`New tab opened: ${page.url()}`);
+        }).catch(error => {
+            Logger.warn(`Failed to track the new tab: ${error}`);
+        }).finally(() => {
+            this.pending.delete(tracking);
+        });
+        this.pending.add(tracking);
+    }
+
+    /**
+     * Forgets a closed tab, switching back to the previous tab if it was the current one
+     * @param page The closed tab
+     */
+    private forget(page: Page): void {
+        const wasCurrent = this.current === page;
+        for (const list of [this.pages, this.history, this.unvisited]) {
+            for (let index = list.indexOf(page); index !== -1; index = list.indexOf(page)) {
+                list.splice(index, 1);
+            }
+        }
+
+        if (this.pages.length === 0) {
+            return;
+        }
+        if (this.history.length === 0) {
+            this.history.push(this.pages[this.pages.length - 1]);
+        }
+        if (wasCurrent) {
+            // e.g. an OAuth popup closing itself once the user is signed in
+            Logger.info(`Tab closed, switched back to: ${this.current.url()}`);
+            this.current.bringToFront().catch(() => {});
+        }
+    }
+
+    /**
+     * Waits until the tabs opened so far are tracked
+     * @returns {Promise<void>}
+     */
+    private async settle(): Promise<void> {
+        await Promise.all(this.pending);
+    }
+
+    /**
+     * Finds the tab to switch to
+     * @param selector Which tab to switch to
+     * @returns {Promise<Page | undefined>} The tab, undefined if there is none
+     */
+    public async find(selector: TabSelector): Promise<Page | undefined> {
+        if (selector === 'new') {
+            // the tab may still be opening, e.g. after a click
+            const deadline = Date.now() + NEW_TAB_TIMEOUT;
+            while (this.unvisited.length === 0 && Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, 100));
+            }
+            await this.settle();
+            return this.unvisited[this.unvisited.length - 1];
+        }
+
+        await this.settle();
+        if (selector === 'previous') {
+            return this.history.slice(0, -1).reverse().find(page => page !== this.current);
+        }
+        if (typeof selector === 'number') {
+            return this.pages[selector - 1];
+        }
+
+        const text = selector.toLowerCase();
+        for (const page of this.pages) {
+            const title = await page.title().catch(() => '');
+            if (title.toLowerCase().includes(text) || page.url().toLowerCase().includes(text)) {
+                return page;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Switches the script to another tab, and waits for the tab to be loaded
+     * @param selector Which tab to switch to
+     * @returns {Promise<void>}
+     * @throws {StepFailedError} If there is no such tab
+     */
+    public async switchTo(selector: TabSelector): Promise<void> {
+        const page = await this.find(selector);
+        if (!page) {
+            throw new StepFailedError(selector === 'new' ? 'No new tab was opened' : `No tab found: ${selector}`);
+        }
+
+        this.unvisited.splice(0, this.unvisited.length, ...this.unvisited.filter(unvisited => unvisited !== page));
+        this.history.push(page);
+        await page.bringToFront();
+
+        try {
+            await page.waitForFunction(() => document.readyState === 'complete', { timeout: LOAD_TIMEOUT });
+        } catch (error) {
+            Logger.debug('Tab still loading, moving on...');
+        }
+        Logger.info(`Switched to tab ${this.pages.indexOf(page) + 1} of ${this.pages.length}: ${page.url()}`);
+    }
+
+    /**
+     * Closes the current tab and switches back to the previous one
+     * @returns {Promise<void>}
+     * @throws {StepFailedError} If it is the last open tab
+     */
+    public async closeCurrent(): Promise<void> {
+        if (this.pages.length <= 1) {
+            throw new StepFailedError('The last open tab can\'t be closed');
+        }
+
+        const page = this.current;
+        await page.close();
+        // the close event may come after the page is closed
+        this.forget(page);
+        await this.current.bringToFront();
+    }
+}
@@ -0,0 +1,291 @@
+import { Frame, Page } from 'puppeteer';
+import { Logger } from './logger';
+
+/**
+ * Selectors of the controls, tagged even when nested in another tagged element, e.g. the buttons of a clickable card
+ */
+const CONTROL_SELECTORS = [
+    'input:not([type="hidden"])',
+    'textarea',
+    'select',
+    'button',
+    'a[href]',
+    'summary',
+    '[role="button"]',
+    '[role="link"]',
+    '[role="tab"]',
+    '[role="menuitem"]',
+    '[role="option"]',
+    '[role="checkbox"]',
+    '[role="radio"]',
+    '[role="switch"]',
+    '[contenteditable=""]',
+    '[contenteditable="true"]',
+].join(', ');
+
+/**
+ * Selectors of the elements a user can interact with, elements with a pointer cursor are added on top of these
+ */
+const INTERACTABLE_SELECTORS = `${CONTROL_SELECTORS}, [onclick]`;
+
+/**
+ * Upper bound of tagged elements, more labels than this only clutter the screenshots
+ */
+const MAX_TAGS = 500;
+
+/**
+ * Gets the frames of the page that are rendered, the main frame first
+ * @param page Puppeteer Page object
+ * @returns {Promise<Frame[]>} The rendered frames
+ */
+const getRenderedFrames = async (page: Page): Promise<Frame[]> => {
+    const frames: Frame[] = [];
+    for (const frame of page.frames()) {
+        if (frame.detached) {
+            continue;
+        }
+        if (frame !== page.mainFrame()) {
+            // hidden and zero-sized frames, e.g. tracking pixels, are left out
+            const frameElement = await frame.frameElement().catch(() => null);
+            const box = await frameElement?.boundingBox().catch(() => null);
+            await frameElement?.dispose();
+            if (!box || box.width < 2 || box.height < 2) {
+                continue;
+            }
+        }
+        frames.push(frame);
+    }
+    return frames;
+};
+
+/**
+ * Numbers the visible interactable elements of the page, including the ones inside open shadow roots
+ * and inside frames, and overlays a label with the number on each of them. The numbers are mapped to
+ * their elements in the `window.__webcopilotTags` of each frame, so the page's own markup is never modified.
+ * @param page Puppeteer Page object
+ * @param showLabels Whether to overlay the number labels, defaults to true
+ * @returns {Promise<string[]>} Ids of the tagged elements
+ */
+export async function injectTagging(page: Page, showLabels: boolean = true): Promise<string[]> {
+    // First remove any existing number tags, and the ids of the previous tagging
+    await removeTagging(page, true);
+
+    // the ids continue from one frame to the next, so they are unique across the page
+    const ids: string[] = [];
+    for (const frame of await getRenderedFrames(page)) {
+        if (ids.length >= MAX_TAGS) {
+            break;
+        }
+
+        try {
+            ids.push(...await tagFrame(frame, MAX_TAGS - ids.length, showLabels, ids.length + 1));
+        } catch (error) {
+            // e.g. a frame navigating away while being tagged
+            Logger.debug(`Frame not tagged: ${frame.url()}: ${error}`);
+        }
+    }
+    return ids;
+}
+
+/**
+ * Numbers the visible interactable elements of a single frame
+ * @param frame Puppeteer Frame object
+ * @param maxTags Maximum number of elements to tag
+ * @param showLabels Whether to overlay the number labels
+ * @param firstId Number of the first tagged element
+ * @returns {Promise<string[]>} Ids of the tagged elements
+ */
+async function tagFrame(frame: Frame, maxTags: number, showLabels: boolean, firstId: number): Promise<string[]> {
+    // Inject and execute the numberElements function
+    return await frame.evaluate((interactableSelectors, controlSelectors, maxTags, showLabels, firstId) => {
+        function numberElements(): string[] {
+            // Create and append style element for embedded CSS
+            const style = document.createElement('style');
+            style.classList.add('number-tag-style');
+            style.innerHTML = `
+                .number-tag {
+                    position: absolute;
+                    background-color: yellow;
+                    border: 1px solid black;
+                    padding: 2px 4px;
+                    font: 12px/14px monospace;
+                    color: black;
+                    z-index: 2147483647;
+                    pointer-events: none;
+                }
+            `;
+            document.head.appendChild(style);
+
+            // Collect the candidates of the document and of every open shadow root
+            const candidates: Element[] = [];
+            const collect = (root: Document | ShadowRoot) => {
+                root.querySelectorAll('*').forEach(element => {
+                    if (element.matches(interactableSelectors)) {
+                        candidates.push(element);
+                    } else if (getComputedStyle(element).cursor === 'pointer') {
+                        // only the outermost element with a pointer cursor, its children inherit the cursor
+                        const parent = element.parentElement;
+                        if (!parent || getComputedStyle(parent).cursor !== 'pointer') {
+                            candidates.push(element);
+                        }
+                    }
+
+                    if (element.shadowRoot) {
+                        collect(element.shadowRoot);
+                    }
+                });
+            };
+            collect(document);
+
+            // An element is visible if it has a size, isn't hidden and isn't fully covered by other elements
+            const isVisible = (element: Element, rect: DOMRect): boolean => {
+                if (rect.width < 2 || rect.height < 2) {
+                    return false;
+                }
+
+                const style = getComputedStyle(element);
+                if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) {
+                    return false;
+                }
+
+                const root = element.getRootNode() as Document | ShadowRoot;
+                const samples = [[0.5, 0.5], [0.25, 0.25], [0.75, 0.25], [0.25, 0.75], [0.75, 0.75]];
+                return samples.some(([fx, fy]) => {
+                    const hit = root.elementFromPoint(rect.left + rect.width * fx, rect.top + rect.height * fy);
+                    return hit !== null && (hit === element || element.contains(hit) || hit.contains(element));
+                });
+            };
+
+            const tags = new Map<string, Element>();
+            const placedLabels: { left: number; top: number; right: number; bottom: number }[] = [];
+            const overlaps = (box: { left: number; top: number; right: number; bottom: number }) => placedLabels.some(
+                placed => box.left < placed.right && box.right > placed.left && box.top < placed.bottom && box.bottom > placed.top
+            );
+
+            // Skip elements nested in an already tagged element, e.g. the icon inside a button, unless they are controls themselves
+            const tagged = new Set<Element>();
+            for (const element of candidates) {
+                if (tags.size >= maxTags) {
+                    break;
+                }
+
+                let ancestor = element.parentElement;
+                while (ancestor && !tagged.has(ancestor)) {
+                    ancestor = ancestor.parentElement;
+                }
+                if (ancestor && !element.matches(controlSelectors)) {
+                    continue;
+                }
+
+                const rect = element.getBoundingClientRect();
+                if (!isVisible(element, rect)) {
+                    continue;
+                }
+
+                const id = (firstId + tags.size).toString();
+                tags.set(id, element);
+                tagged.add(element);
+                if (!showLabels) {
+                    continue;
+                }
+
+                const numberTag = document.createElement('div');
+                numberTag.classList.add('number-tag');
+                numberTag.innerText = id;
+                document.body.appendChild(numberTag);
+
+                // Try the corners of the element until the label doesn't collide with an already placed one
+                const width = numberTag.offsetWidth;
+                const height = numberTag.offsetHeight;
+                const left = rect.left + window.scrollX;
+                const top = rect.top + window.scrollY;
+                const positions = [
+                    [left, top],
+                    [left, top - height],
+                    [left + rect.width - width, top],
+                    [left - width, top],
+                    [left, top + rect.height - height],
+                    [left + rect.width - width, top + rect.height - height],
+                ];
+                const boxes = positions.map(([x, y]) => ({ left: x, top: y, right: x + width, bottom: y + height }));
+                const box = boxes.find(candidate => !overlaps(candidate)) || boxes[0];
+
+                placedLabels.push(box);
+                numberTag.style.left = `${box.left}px`;
+                numberTag.style.top = `${box.top}px`;
+            }
+
+            (window as any).__webcopilotTags = tags;
+            return Array.from(tags.keys());
+        }
+
+        // Execute the function
+        return numberElements();
+    }, INTERACTABLE_SELECTORS, CONTROL_SELECTORS, maxTags, showLabels, firstId);
+}
+
+/**
+ * Removes any existing number tags from every frame of the page, the id-to-element maps are kept
+ * so the elements can still be resolved after the screenshots were taken
+ * @param page Puppeteer Page object
+ * @param clearIds Whether to also forget the ids, defaults to false
+ * @returns {Promise<void>}
+ */
+export async function removeTagging(page: Page, clearIds: boolean = false): Promise<void> {
+    for (const frame of page.frames()) {
+        if (frame.detached) {
+            continue;
+        }
+
+        await frame.evaluate((clearIds) => {
+            // Remove number tags
+            const existingTags = document.querySelectorAll('.number-tag, .number-tag-style');
+            existingTags.forEach(tag => tag.remove());
+
+            if (clearIds) {
+                delete (window as any).__webcopilotTags;
+            }
+        }, clearIds).catch(error => Logger.debug(`Frame tags not removed: ${frame.url()}: ${error}`));
+    }
+}
+
+/**
+ * Scrolls the tagged element into view and gets its position, the element may be inside a frame
+ * @param page Puppeteer Page object
+ * @param targetId Id of the tagged element
+ * @param scroll Whether to scroll the element into view, defaults to true
+ * @returns {Promise<{ x: number; y: number } | null>} Viewport position of the element's center, null if there is no such element
+ */
+export async function locateTaggedElement(page: Page, targetId: string, scroll: boolean = true): Promise<{ x: number; y: number } | null> {
+    for (const frame of page.frames()) {
+        if (frame.detached) {
+            continue;
+        }
+
+        const handle = await frame.evaluateHandle((targetId, scroll) => {
+            const tags: Map<string, Element> | undefined = (window as any).__webcopilotTags;
+            const element = tags?.get(targetId);
+            if (!element || !element.isConnected) {
+                return null;
+            }
+
+            if (scroll) {
+                element.scrollIntoView({ block: 'center', inline: 'center' });
+            }
+            return element;
+        }, targetId, scroll).catch(() => null);
+
+        const element = handle?.asElement();
+        if (!element) {
+            await handle?.dispose();
+            continue;
+        }
+
+        // the box is relative to the main frame, whatever frame the element is in
+        const box = await element.boundingBox();
+        await element.dispose();
+        return box ? { x: Math.floor(box.x + box.width / 2), y: Math.floor(box.y + box.height / 2) } : null;
+    }
+
+    return null;
+}
@@ -1,27 +1,22 @@
-import puppeteer, { Page } from 'puppeteer';
+import puppeteer, { ElementHandle, Page } from 'puppeteer';
 import sharp from 'sharp';
 import config from 'config';
-import Anthropic from '@anthropic-ai/sdk';
 import * as fs from 'fs';
 import { Logger } from './logger';
 import { LLM } from './llm';
-import { Requests } from './requests';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+import { executeNativeStep } from './steps';
+import { fingerprintElementAt, locateFingerprintedElement } from './lockfile';
+import { Action, ElementAction, isElementAction, validateAction } from './actions';
+import { encodeImage, getImageSize, ImageEncoding, resizeImage, zoomWithGrid } from './images';
+import { injectTagging, locateTaggedElement, removeTagging } from './tagging';
+import { capturePageOutline } from './outline';
+import { clearField, elementAtPoint, findControl, focusedElement, selectOption, setChecked, uploadFile } from './forms';
+import { dragAndDrop, pressShortcut, scrollBy, scrollToText } from './gestures';
+import { getSpeedProfile, waitForPaint, waitForStable } from './stability';
 import path from 'path';
 
-/**
- * Generates a filename with timestamp for screenshots
- * @returns {string} Filename with format './snapshots/YYYY-MM-DD HH.MM.SS.SSS.png'
- */
-export const generateScreenshotFilename = (): string => {
-    const timestamp = new Date().toISOString()
-        .replace(/T/, ' ')
-        .replace(/\..+/, (match) => match.substring(0, 4))
-        .replace(/:/g, '.')
-        .replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3');
-    
-    return `./snapshots/${timestamp}.png`;
-};
-
 /**
  * Validates if a string is a valid base64 encoded image
  * @param base64String The base64 string to validate
@@ -52,19 +47,13 @@ export const validateBase64Image = (base64String: string): boolean => {
 /**
  * Takes a screenshot of the current page
  * @param page Puppeteer Page object
- * @returns {Promise<[string, string]>} Tuple containing [filepath, base64String]
+ * @param dir Directory to save the screenshot to, null to keep it in memory only
+ * @param name File name of the screenshot, without extension
+ * @returns {Promise<[string | null, string]>} Tuple containing [filepath, base64String]
  */
-export const takeSnapshot = async (page: Page): Promise<[string, string]> => {
+export const takeSnapshot = async (page: Page, dir: string | null, name: string = 'viewport'): Promise<[string | null, string]> => {
     Logger.debug('Taking snapshot (viewport)...');
 
-    // Create snapshots directory if it doesn't exist
-    if (!fs.existsSync('./snapshots')) {
-        fs.mkdirSync('./snapshots');
-    }
-
-    // Generate filename
-    const filename = generateScreenshotFilename();
-
     // Take screenshot of full page and encode as base64
     const base64Snapshot = await page.screenshot({
         encoding: 'base64',
@@ -73,31 +62,31 @@ export const takeSnapshot = async (page: Page): Promise<[string, string]> => {
     });
 
     // Convert base64 to buffer and save to file
-    const buffer = Buffer.from(base64Snapshot, 'base64');
-    fs.writeFileSync(filename, buffer);
+    let filename: string | null = null;
+    if (dir) {
+        filename = path.join(dir, `${name}.png`);
+        fs.writeFileSync(filename, Buffer.from(base64Snapshot, 'base64'));
+    }
 
     return [filename, base64Snapshot];
 }; 
 
 /**
- * Splits an image file into overlapping sections
- * @param inputImagePath Path to the input image file
- * @returns {Promise<[string[], string[], number[]]>} Tuple containing [filepaths[], base64Strings[], offsetHeights[]]
+ * Splits an image into overlapping sections
+ * @param image The image to split
+ * @param dir Directory to save the sections to, null to keep them in memory only
+ * @param prefix Prefix of the section file names
+ * @returns {Promise<[string[], string[], number[]]>} Tuple containing [filepaths[], base64Strings[], offsetHeights[]], no filepaths if dir is null
  */
-export const splitImageIntoChunks = async (inputImagePath: string): Promise<[string[], string[], number[]]> => {
+export const splitImageIntoChunks = async (image: Buffer, dir: string | null, prefix: string = ''): Promise<[string[], string[], number[]]> => {
     Logger.debug('Splitting image into chunks...');
 
-    // Create snapshots directory if it doesn't exist
-    if (!fs.existsSync('./snapshots')) {
-        fs.mkdirSync('./snapshots');
-    }
-
     // Constants for splitting
     const CHUNK_HEIGHT = 1024;
     const OVERLAP = 200;
 
     // Get image metadata
-    const metadata = await sharp(inputImagePath).metadata();
+    const metadata = await sharp(image).metadata();
     if (!metadata.height || !metadata.width) {
         throw new Error('Could not get image dimensions');
     }
@@ -108,12 +97,6 @@ export const splitImageIntoChunks = async (inputImagePath: string): Promise<[str
     const filenames: string[] = [];
     const base64Snapshots: string[] = [];
     const offsetHeights: number[] = [];
-    
-    // Generate base filename
-    const baseFilename = generateScreenshotFilename();
-    const filenameParts = baseFilename.split('.');
-    const filenameBase = filenameParts.slice(0, -1).join('.');
-    const extension = filenameParts[filenameParts.length - 1];
 
     // Split image into chunks
     for (let i = 0; i < totalChunks; i++) {
@@ -125,12 +108,9 @@ export const splitImageIntoChunks = async (inputImagePath: string): Promise<[str
         const defaultStartY = i * (CHUNK_HEIGHT - OVERLAP);
         const lastChunkStartY = Math.max(0, metadata.height - CHUNK_HEIGHT);
         const startY = isLastChunk ? lastChunkStartY : defaultStartY;
-
-        // Generate filename for this section
-        const chunkFilename = `${filenameBase}-${i + 1}-${startY}.${extension}`;
         
         // Extract the chunk and get both file and base64
-        const chunkBuffer = await sharp(inputImagePath)
+        const chunkBuffer = await sharp(image)
             .extract({
                 left: 0,
                 top: startY,
@@ -144,9 +124,12 @@ export const splitImageIntoChunks = async (inputImagePath: string): Promise<[str
         const base64String = chunkBuffer.toString('base64');
         
         // Save to file
-        await fs.promises.writeFile(chunkFilename, chunkBuffer);
+        if (dir) {
+            const chunkFilename = path.join(dir, `${prefix}chunk-${(i + 1).toString().padStart(2, '0')}.png`);
+            await fs.promises.writeFile(chunkFilename, chunkBuffer);
+            filenames.push(chunkFilename);
+        }
 
-        filenames.push(chunkFilename);
         base64Snapshots.push(base64String);
         offsetHeights.push(startY);
     }
@@ -157,28 +140,25 @@ export const splitImageIntoChunks = async (inputImagePath: string): Promise<[str
 /**
  * Takes screenshots of the entire page, splitting into overlapping sections if needed
  * @param page Puppeteer Page object
- * @returns {Promise<[string[], string[], number[]]>} Tuple containing [filepaths[], base64Strings[], offsetHeights[]]
+ * @param dir Directory to save the screenshots to, null to keep them in memory only
+ * @param beforeScreenshot Optional callback run once the viewport covers the full page, right before the screenshot
+ * @param prefix Prefix of the screenshot file names
+ * @returns {Promise<[string[], string[], number[], string]>} Tuple containing [filepaths[], base64Strings[], offsetHeights[], fullBase64String]
  */
-export const takeSnapshotFullPage = async (page: Page): Promise<[string[], string[], number[]]> => {
+export const takeSnapshotFullPage = async (
+    page: Page,
+    dir: string | null,
+    beforeScreenshot?: () => Promise<void>,
+    prefix: string = ''
+): Promise<[string[], string[], number[], string]> => {
     Logger.debug('Taking full page snapshot...');
 
-    // Create snapshots directory if it doesn't exist
-    if (!fs.existsSync('./snapshots')) {
-        fs.mkdirSync('./snapshots');
-    }
-
     // Get full page dimensions and device scale factor
     const dimensions = await page.evaluate(() => ({
         height: document.documentElement.scrollHeight,
         width: document.documentElement.scrollWidth,
         deviceScaleFactor: window.devicePixelRatio
     }));
-  
-    // Generate base filename
-    const baseFilename = generateScreenshotFilename();
-    const filenameParts = baseFilename.split('.');
-    const filenameBase = filenameParts.slice(0, -1).join('.');
-    const extension = filenameParts[filenameParts.length - 1];
 
     // scroll to the top
     await page.evaluate(() => {
@@ -194,8 +174,12 @@ export const takeSnapshotFullPage = async (page: Page): Promise<[string[], strin
         deviceScaleFactor: 1
     });
 
-    // wait for 0.5 second
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // wait for the page to lay itself out in the taller viewport, e.g. lazily loaded images
+    await waitForStable(page);
+
+    if (beforeScreenshot) {
+        await beforeScreenshot();
+    }
 
     // Take screenshot of full page
     const base64Snapshot = await page.screenshot({
@@ -204,18 +188,14 @@ export const takeSnapshotFullPage = async (page: Page): Promise<[string[], strin
         // fullPage: true
     });
 
-    // Generate filename for this section
-    const sectionFilename = `${filenameBase}-full.${extension}`;
-    
     // Save the screenshot
     const buffer = Buffer.from(base64Snapshot, 'base64');
-    fs.writeFileSync(sectionFilename, buffer);
+    if (dir) {
+        fs.writeFileSync(path.join(dir, `${prefix}full.png`), buffer);
+    }
 
     // call splitImageIntoChunks
-    const [filenames, base64Snapshots, offsetHeights] = await splitImageIntoChunks(sectionFilename);
-
-    // wait for 0.5 second
-    await new Promise(resolve => setTimeout(resolve, 500));
+    const [filenames, base64Snapshots, offsetHeights] = await splitImageIntoChunks(buffer, dir, prefix);
 
     // restore viewport
     await page.setViewport({
@@ -224,36 +204,41 @@ export const takeSnapshotFullPage = async (page: Page): Promise<[string[], strin
         deviceScaleFactor: 1
     });
 
-    // wait for 0.5 second
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await waitForStable(page);
 
-    return [filenames, base64Snapshots, offsetHeights];
+    return [filenames, base64Snapshots, offsetHeights, base64Snapshot];
 };
 
 /**
  * Types text like a human with random delays between keystrokes
- * @param page Puppeteer Page object
- * @param selector Element selector
+ * @param element Element to type into
  * @param text Text to type
  */
-export async function humanType(page: Page, selector: string, text: string) {
-    await page.waitForSelector(selector);
+export async function humanType(element: ElementHandle<Element>, text: string) {
+    const [minDelay, maxDelay] = getSpeedProfile().typingDelay;
+    if (maxDelay === 0) {
+        await element.type(text);
+        return;
+    }
+
     for (const char of text) {
-        await page.type(selector, char);
-        // Random delay between 100ms and 300ms
-        await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 150));
+        await element.type(char);
+        // random delay between keystrokes, as set by the speed profile
+        await new Promise(resolve => setTimeout(resolve, minDelay + Math.random() * (maxDelay - minDelay)));
     }
 }
 
 /**
  * Executes a dummy action with a 1 second delay
- * @param page Puppeteer Page object
+ * @param context Script context
  * @param offsetHeights Array of offset heights
  * @param action Action object
  * @param retry Boolean flag for retry, defaults to false
  * @returns {Promise<boolean>} Boolean flag for move on, defaults to false
  */
-export async function executeAction(page: Page, offsetHeights: number[], action: any, retry: boolean = false) {
+export async function executeAction(context: ScriptContext, offsetHeights: number[], action: Action, retry: boolean = false) {
+    const page = context.page;
+
     // Get current URL
     const currentUrl = await page.url();
     Logger.debug(`Current URL: ${currentUrl}`);
@@ -265,7 +250,7 @@ export async function executeAction(page: Page, offsetHeights: number[], action:
             Logger.error('No target URL found in action');
             throw new Error('No target URL found in action');
         }
-        await page.goto(action.value, { waitUntil: 'networkidle0' });
+        await page.goto(context.variables.resolveSecrets(action.value), { waitUntil: 'networkidle0' });
         Logger.debug(`Page fully loaded: ${await page.url()}`);
 
         // move to next action
@@ -273,99 +258,210 @@ export async function executeAction(page: Page, offsetHeights: number[], action:
     }
 
     // If target_id exists, get coordinates from tagged element
-    if (action.target_id) {
-        const elementCoords = await page.evaluate((targetId) => {
-            const element = document.querySelector(`.number-tag-target-${targetId}`);
-            if (element) {
-                const rect = element.getBoundingClientRect();
-                return {
-                    x: Math.floor(rect.left + rect.width/2),
-                    y: Math.floor(rect.top + rect.height/2)
-                };
+    if (isElementAction(action) && action.target_id) {
+        const elementCoords = await locateTaggedElement(page, action.target_id);
+        if (!elementCoords) {
+            Logger.error(`No tagged element found with id ${action.target_id}`);
+            if (retry) {
+                // dont't move on
+                return false;
             }
-            return null;
-        }, action.target_id);
-
-        if (elementCoords) {
-            action.location_x = elementCoords.x;
-            action.location_y = elementCoords.y;
+            throw new StepFailedError(`No tagged element found with id ${action.target_id}`);
         }
 
+        action.location_x = elementCoords.x;
+        action.location_y = elementCoords.y;
+
         Logger.debug(`Tagging mode, Element coordinates: ${action.location_x}, ${action.location_y}`);
+    } else if ('target_image' in action && action.target_image) {
+        // scroll to the offset height
+        await page.evaluate((offsetHeight) => {
+            window.scrollTo(0, offsetHeight);
+        }, offsetHeights[action.target_image - 1]);
     }
 
-    // scroll to the offset height
-    await page.evaluate((offsetHeights, action) => {
-        window.scrollTo(0, offsetHeights[action.target_image - 1]);
-    }, offsetHeights, action);
-
-    // draw a pointer icon on the given location
-    if (action.action === 'click' || action.action === 'type') {
-        await page.evaluate((action) => {
-            const pointer = document.createElement('div');
-            pointer.innerHTML = '👆'; // Unicode pointer finger
-            pointer.id = 'capstone2024v2-pointer';
-            pointer.style.position = 'fixed';
-            pointer.style.left = `${action.location_x}px`;
-            pointer.style.top = `${action.location_y}px`;
-            pointer.style.fontSize = '24px';
-            pointer.style.zIndex = '9999';
-            pointer.style.pointerEvents = 'none'; // Make it non-interactive
-            pointer.style.transition = 'all 0.3s ease'; // Smooth animation
-            document.body.appendChild(pointer);
-        }, action);
+    // the drop point is resolved once the source is in view, without scrolling it away
+    let dropLocation: { x: number; y: number } | null = null;
+    if (action.action === 'drag') {
+        if (action.to_target_id) {
+            dropLocation = await locateTaggedElement(page, action.to_target_id, false);
+        } else if (action.to_target_image && action.to_location_x !== undefined && action.to_location_y !== undefined) {
+            // the drop point is in page coordinates of its own snapshot
+            const scrollY = await page.evaluate(() => window.scrollY);
+            dropLocation = { x: action.to_location_x, y: offsetHeights[action.to_target_image - 1] + action.to_location_y - scrollY };
+        }
+
+        if (!dropLocation) {
+            Logger.error(`No drop target found: ${action.to_target_id ?? `${action.to_location_x}, ${action.to_location_y}`}`);
+            if (retry) {
+                // dont't move on
+                return false;
+            }
+            throw new StepFailedError('No drop target found');
+        }
+        Logger.debug(`Drop target coordinates: ${dropLocation.x}, ${dropLocation.y}`);
     }
 
-    // Wait for 1 second
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // remember the target element for the lockfile, before the action changes the page
+    if (context.lockfile.recording) {
+        context.lockfile.captureElement(
+            isElementAction(action) && action.location_x !== undefined && action.location_y !== undefined
+                ? await fingerprintElementAt(page, action.location_x, action.location_y)
+                : undefined
+        );
+    }
 
-    // remove the pointer
-    await page.evaluate(() => {
-        const pointer = document.getElementById('capstone2024v2-pointer');
-        if (pointer) {
-            pointer.remove();
+    // draw a pointer icon on the given location, and on the drop point of a drag, the speed profile may leave it out
+    const { pointerDuration } = getSpeedProfile();
+    if (pointerDuration > 0 && isElementAction(action) && action.location_x !== undefined && action.location_y !== undefined) {
+        const pointers = [{ id: 'capstone2024v2-pointer', x: action.location_x, y: action.location_y }];
+        if (dropLocation) {
+            pointers.push({ id: 'capstone2024v2-drop-pointer', ...dropLocation });
         }
-    });
+        await page.evaluate((pointers) => {
+            for (const { id, x, y } of pointers) {
+                const pointer = document.createElement('div');
+                pointer.innerHTML = '👆'; // Unicode pointer finger
+                pointer.id = id;
+                pointer.style.position = 'fixed';
+                pointer.style.left = `${x}px`;
+                pointer.style.top = `${y}px`;
+                pointer.style.fontSize = '24px';
+                pointer.style.zIndex = '9999';
+                pointer.style.pointerEvents = 'none'; // Make it non-interactive
+                pointer.style.transition = 'all 0.3s ease'; // Smooth animation
+                document.body.appendChild(pointer);
+            }
+        }, pointers);
+
+        // leave the pointers on screen long enough to be followed
+        await new Promise(resolve => setTimeout(resolve, pointerDuration));
+
+        // remove the pointers
+        await page.evaluate(() => {
+            for (const id of ['capstone2024v2-pointer', 'capstone2024v2-drop-pointer']) {
+                document.getElementById(id)?.remove();
+            }
+        });
+    }
 
     // perform the action    
     switch (action.action) {
         case 'click':
+            // click on the pointer's position, the click might lead to a navigation or an API call the page is waited for below
+            Logger.debug('Clicking on the pointer\'s position...');
+            await page.mouse.click(action.location_x!, action.location_y!);
+            break;
+
+        case 'type': {
             // click on the pointer's position
-            // need to use race to wait for the page to load since the click might lead to a navigation or a API call
             Logger.debug('Clicking on the pointer\'s position...');
-            if (!action.target_id) {
-                await page.mouse.click(action.location_x, action.location_y)
-                try {
-                    await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 });
-                } catch (error) {
-                    Logger.debug('Network idle timeout, moving on...');
+            await page.mouse.click(action.location_x!, action.location_y!);
+
+            // the focused field may be inside a frame
+            const field = await focusedElement(page);
+            if (!field) {
+                Logger.error(`No field focused at ${action.location_x}, ${action.location_y}`);
+                if (retry) {
+                    // dont't move on
+                    return false;
                 }
-            } else {
-                await page.click(`.number-tag-target-${action.target_id}`)
-                try {
-                    await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 });
-                } catch (error) {
-                    Logger.debug('Network idle timeout, moving on...');
+                throw new StepFailedError(`No field focused at ${action.location_x}, ${action.location_y}`);
+            }
+
+            try {
+                // empty the field first when its content is replaced
+                if (action.mode === 'replace') {
+                    await clearField(page, field);
                 }
+
+                // type the content
+                Logger.debug(`typing ${action.value} into ${action.location_x}, ${action.location_y}`);
+                // secrets are only substituted now that the LLM has picked the target
+                await humanType(field, context.variables.resolveSecrets(action.value));
+            } finally {
+                await field.dispose();
             }
             break;
+        }
 
-        case 'type':
-            // click on the pointer's position
-            Logger.debug('Clicking on the pointer\'s position...');
-            if (!action.target_id) {
+        case 'select':
+        case 'check':
+        case 'uncheck':
+        case 'upload':
+        case 'clear': {
+            const location = { x: action.location_x!, y: action.location_y! };
+            const element = await elementAtPoint(page, location.x, location.y);
+            const kind = ({ select: 'select', check: 'checkable', uncheck: 'checkable', upload: 'file', clear: 'text' } as const)[action.action];
+            const control = element ? await findControl(element, kind) : null;
+            await element?.dispose();
+
+            // a file chooser can be opened without finding the file input
+            if (!control && action.action !== 'upload') {
+                Logger.error(`No ${kind} element found at ${location.x}, ${location.y}`);
+                if (retry) {
+                    // dont't move on
+                    return false;
+                }
+                throw new StepFailedError(`No ${kind} element found at ${location.x}, ${location.y}`);
+            }
+
+            try {
+                if (action.action === 'select') {
+                    await selectOption(control!, context.variables.resolveSecrets(action.value));
+                } else if (action.action === 'check' || action.action === 'uncheck') {
+                    await setChecked(page, control!, action.action === 'check', location);
+                } else if (action.action === 'upload') {
+                    // the path is relative to the script
+                    await uploadFile(page, control, path.resolve(context.scriptDir, context.variables.resolveSecrets(action.value)), location);
+                } else {
+                    await clearField(page, control!);
+                }
+            } finally {
+                await control?.dispose();
+            }
+            break;
+        }
+
+        case 'press':
+            // focus the target first, otherwise the key goes to the focused element
+            if (action.location_x !== undefined && action.location_y !== undefined) {
                 await page.mouse.click(action.location_x, action.location_y);
+            }
+            await pressShortcut(page, action.value);
+            break;
+
+        case 'hover':
+            Logger.debug('Moving the mouse to the pointer\'s position...');
+            // menus and tooltips are waited for below, with the rest of the page
+            await page.mouse.move(action.location_x!, action.location_y!);
+            break;
+
+        case 'scroll': {
+            const location = action.location_x !== undefined && action.location_y !== undefined
+                ? { x: action.location_x, y: action.location_y }
+                : null;
+            if (action.value) {
+                if (!await scrollToText(page, action.value, location)) {
+                    Logger.error(`Text not found while scrolling: ${action.value}`);
+                    if (retry) {
+                        // dont't move on
+                        return false;
+                    }
+                    throw new StepFailedError(`Text not found while scrolling: ${action.value}`);
+                }
             } else {
-                await page.click(`.number-tag-target-${action.target_id}`);
+                await scrollBy(page, action.direction ?? 'down', action.amount, location);
             }
+            break;
+        }
 
-            // type the content
-            Logger.debug(`typing ${action.value} into ${action.location_x}, ${action.location_y}`);
-            await humanType(page, ':focus', action.value);
+        case 'drag':
+            await dragAndDrop(page, { x: action.location_x!, y: action.location_y! }, dropLocation!);
             break;
 
         case 'expectation':
-            if (action.value === `true` || action.value === true) {
+            if (action.value) {
                 Logger.info(`Expectation is true. ${action.comment ? action.comment : ''}`);
             } else {
                 Logger.error(`Expectation is false. ${action.comment ? action.comment : ''}`);
@@ -373,11 +469,47 @@ export async function executeAction(page: Page, offsetHeights: number[], action:
                     // dont't move on
                     return false;
                 } else {
-                    throw new Error('Expectation is false');
+                    throw new StepFailedError('Expectation is false');
                 }
             }
             break;
 
+        case 'extract': {
+            // confirm the value against the DOM text where possible
+            const confirmation = await page.evaluate((action) => {
+                const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+                const value = normalize(action.value);
+
+                if (action.location_x !== undefined && action.location_y !== undefined) {
+                    // look at the element at the located point and a few of its ancestors
+                    let element = document.elementFromPoint(action.location_x, action.location_y) as HTMLElement | null;
+                    for (let depth = 0; element && depth < 4; depth++, element = element.parentElement) {
+                        const text = normalize(element.innerText || (element as HTMLInputElement).value || '');
+                        if (text.includes(value)) {
+                            return 'located';
+                        }
+                    }
+                }
+
+                return normalize(document.body.innerText).includes(value) ? 'page' : 'none';
+            }, action);
+
+            switch (confirmation) {
+                case 'located':
+                    Logger.debug(`Extracted value confirmed by the DOM text at ${action.location_x}, ${action.location_y}`);
+                    break;
+                case 'page':
+                    Logger.debug('Extracted value confirmed by the DOM text of the page');
+                    break;
+                default:
+                    Logger.warn(`Extracted value could not be confirmed by the DOM text: ${action.value}`);
+            }
+
+            context.variables.set(action.variable, action.value);
+            Logger.info(`Extracted ${action.variable} = ${action.value}`);
+            break;
+        }
+
         case 'unknown':
             Logger.error(`Can't fulfill the action: ${action.comment ? action.comment : ''}`);
             if (retry) {
@@ -385,20 +517,18 @@ export async function executeAction(page: Page, offsetHeights: number[], action:
                 return false;
             } 
             else {
-                throw new Error(`Can't fulfill the action: ${action.comment}`);
+                throw new StepFailedError(`Can't fulfill the action: ${action.comment}`);
             }
 
         default:
-            Logger.debug(`invalid action: ${action.action}`);
+            Logger.debug(`invalid action: ${(action as Action).action}`);
             throw new Error(`invalid action: ${JSON.stringify(action, null, 4)}`);
     }
 
-    // wait for the page to load just in case
-    try {
-        await page.waitForNetworkIdle({ idleTime: 500, timeout: 1000 });
-    } catch (error) {
-        Logger.debug('Network idle timeout, moving on...');
-        await Requests.abortAllRequests(page);
+    // wait for the page to settle, e.g. a navigation, an API call or an opening menu
+    const unsettled = await waitForStable(page);
+    if (unsettled.includes('network')) {
+        await context.requests.cancelPending(page);
     }
 
     Logger.debug('Action completed');
@@ -407,162 +537,377 @@ export async function executeAction(page: Page, offsetHeights: number[], action:
     return true;
 }
 
+/**
+ * LLM response for the current page state, along with what was sent to get it
+ */
+export interface PageLLMResponse {
+    /** Raw text returned by the LLM */
+    llmResponse: string;
+    /** Rendered prompt sent to the LLM */
+    prompt: string;
+    /** Base64 strings of every snapshot chunk of the page */
+    base64Strings: string[];
+    /** Base64 strings of the snapshot chunks sent to the LLM, as encoded for the LLM */
+    sentBase64Strings: string[];
+    /** Factor from the CSS pixels of each chunk sent to the pixels of its encoded image */
+    sentImageScales: number[];
+    /** Files of the snapshot chunks sent to the LLM */
+    sentFilenames: string[];
+    /** Page offset of each snapshot chunk */
+    offsetHeights: number[];
+    /** Page offset of each snapshot chunk sent to the LLM, `target_image` refers to these */
+    sentOffsetHeights: number[];
+    /** Ids of the tagged elements the LLM may answer with, empty if neither tagged nor outlined */
+    elementIds: string[];
+    /** Cache hash of the response, null if the cache is disabled */
+    cacheHash: string | null;
+}
+
+/**
+ * How the snapshot chunks of long pages are sent to the LLM
+ */
+interface SnapshotConfig {
+    /** Maximum number of chunks sent at once */
+    maxImages: number;
+    /** `thumbnails` to find the target chunk on downscaled chunks first, `batches` to walk the chunks batch by batch */
+    strategy: 'thumbnails' | 'batches';
+    /** Width of the downscaled chunks */
+    thumbnailWidth: number;
+    /** Maximum number of downscaled chunks sent at once */
+    maxThumbnails: number;
+}
+
 /**
  * Gets LLM response for the current page state
  * @param page Puppeteer page object
  * @param instruction Instruction string for the LLM
  * @param tagging Optional boolean flag for tagging mode, defaults to false
+ * @param dir Directory to save the screenshots to, null to keep them in memory only
  * @returns Promise that resolves with LLM response, base64 strings and offset heights
  */
-export async function getLLMResponseWithCurrentPage(page: any, instruction: string, tagging: boolean = false): Promise<[string, string[], number[], string | null]> {
-    // Get Claude configurations from config
-    const claudeConfig = config.get<{
-        apiKey: string;
-        model: string;
-        temperature: number;
-        maxTokens: number;
-        topP: number;
-        topK: number;
-        frequencyPenalty: number;
-        presencePenalty: number;
-    }>('claude');
-
-    if (tagging) {
-        // Inject tagging functionality into the page
-        await injectTagging(page);
-
-        // wait for 1 second
-        await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+export async function getLLMResponseWithCurrentPage(page: any, instruction: string, tagging: boolean = false, dir: string | null = null): Promise<PageLLMResponse> {
+    const outlineConfig = config.get<{ enabled: boolean; maxNodes: number }>('outline');
+    let elementIds: string[] = [];
+    let outline = '';
+
+    // the elements are tagged once the viewport covers the full page, so the ones below the fold can be checked for visibility
+    const [filenames, base64Strings, offsetHeights] = await takeSnapshotFullPage(page, dir, tagging || outlineConfig.enabled ? async () => {
+        // Inject tagging functionality into the page, the outline alone only needs the ids
+        elementIds = await injectTagging(page, tagging);
+        Logger.debug(`Tagged ${elementIds.length} interactable elements`);
+
+        if (outlineConfig.enabled) {
+            outline = await capturePageOutline(page, outlineConfig.maxNodes);
+            Logger.debug(`Page outline: ${outline.split('\n').length} lines`);
+        }
 
-    // Take screenshot using utility function
-    const [filename, base64Strings, offsetHeights] = await takeSnapshotFullPage(page);
-    Logger.debug(`Screenshot saved to ${filename}`);
+        if (tagging) {
+            // the labels must be painted before the screenshot
+            await waitForPaint(page);
+        }
+    } : undefined, tagging ? 'tagged-' : '');
+    if (dir) {
+        Logger.debug(`Screenshots saved to ${dir}`);
+    }
 
-    if (tagging) {
+    if (tagging || outlineConfig.enabled) {
         // Remove tagging functionality from the page
         await removeTagging(page);
     }
     
-    // Call Claude API with the image
+    // Call the LLM with the image
     const promptContent = fs.readFileSync(
         tagging ? path.join(__dirname, '../../prompts/tag_and_determine_action.md') : path.join(__dirname, '../../prompts/locate_and_determine_action.md'),
         'utf8'
     );
-    const prompt = promptContent.replace(
+    let prompt = promptContent.replace(
         `<%=instruction%>`, 
         instruction
     );
+    if (outline) {
+        prompt += fs.readFileSync(path.join(__dirname, '../../prompts/page_outline.md'), 'utf8')
+            .replace(`<%=outline%>`, outline);
+    }
 
-    // Limit to first 5 images
-    const maxImages = 5;
-    const limitedBase64Strings = base64Strings.slice(0, maxImages);
-
-    const [llmResponse, cacheHash] = await LLM.invoke(prompt, limitedBase64Strings);
-
-    if (base64Strings.length > maxImages) {
-        console.warn(`Warning: Only first ${maxImages} images were sent to Claude due to API limitations.`);
+    // send at most `snapshots.maxImages` chunks at once, long pages are searched for the chunks to send
+    const snapshots = config.get<SnapshotConfig>('snapshots');
+    const maxImages = Math.max(1, snapshots.maxImages);
+    let first = 0;
+    let llmResponse: string;
+    let cacheHash: string | null;
+
+    // the chunks are encoded as configured, the LLM answers in the pixels of the encoded images
+    const encoding = config.get<ImageEncoding>('images');
+    const encodedImages = await Promise.all(base64Strings.map(base64String => encodeImage(base64String, encoding)));
+    const sendImages = async (start: number): Promise<[string, string | null]> => {
+        const images = encodedImages.slice(start, start + maxImages);
+        logImageCost(images);
+        return await LLM.invoke(prompt, images.map(image => image.base64String));
+    };
+
+    if (base64Strings.length <= maxImages) {
+        Logger.debug(`Sending all ${base64Strings.length} snapshot chunks`);
+        [llmResponse, cacheHash] = await sendImages(0);
+    } else if (snapshots.strategy === 'batches') {
+        // walk the batches of chunks until the LLM finds the target
+        const batchCount = Math.ceil(base64Strings.length / maxImages);
+        for (let batch = 0; ; batch++) {
+            first = batch * maxImages;
+            Logger.debug(`Page has ${base64Strings.length} snapshot chunks, sending batch ${batch + 1}/${batchCount} (chunks ${first + 1}-${Math.min(first + maxImages, base64Strings.length)})`);
+            [llmResponse, cacheHash] = await sendImages(first);
+
+            const candidate = extractJSONFromString(llmResponse) as { action?: string; value?: unknown } | null;
+            const notFound = candidate?.action === 'unknown'
+                || (candidate?.action === 'expectation' && (candidate.value === false || candidate.value === 'false'));
+            if (!notFound || batch === batchCount - 1) {
+                break;
+            }
+        }
+    } else {
+        first = await selectSnapshotWindow(instruction, base64Strings, snapshots, encoding);
+        Logger.debug(`Page has ${base64Strings.length} snapshot chunks, sending chunks ${first + 1}-${first + maxImages}`);
+        [llmResponse, cacheHash] = await sendImages(first);
     }
 
-    return [llmResponse, base64Strings, offsetHeights, cacheHash];
+    const sentImages = encodedImages.slice(first, first + maxImages);
+    return {
+        llmResponse,
+        prompt,
+        base64Strings,
+        sentBase64Strings: sentImages.map(image => image.base64String),
+        sentImageScales: sentImages.map(image => image.scale),
+        sentFilenames: filenames.slice(first, first + maxImages),
+        offsetHeights,
+        sentOffsetHeights: offsetHeights.slice(first, first + maxImages),
+        elementIds: outline || tagging ? elementIds : [],
+        cacheHash
+    };
 }
 
 /**
- * Injects tagging functionality into the page and executes it
- * @param page Puppeteer Page object
- * @returns {Promise<void>}
+ * Logs the size and the estimated token cost of the images sent to the LLM
+ * @param images Encoded images
  */
-export async function injectTagging(page: Page): Promise<void> {
-    // clear appended target classes
-    await clearAppendedTargetClasses(page);
+const logImageCost = (images: { base64String: string; width: number; height: number }[]): void => {
+    const bytes = images.reduce((total, image) => total + Buffer.byteLength(image.base64String, 'base64'), 0);
+    // roughly one token per 750 pixels
+    const tokens = images.reduce((total, image) => total + Math.ceil(image.width * image.height / 750), 0);
+    Logger.debug(`Sending ${images.length} image(s): ${(bytes / 1024).toFixed(1)} KB, ~${tokens} image tokens`);
+};
 
-    // First remove any existing number tags
-    await page.evaluate(() => {
-        const existingTags = document.querySelectorAll('.number-tag');
-        existingTags.forEach(tag => tag.remove());
-    });
+/**
+ * Asks the LLM which chunk of a long page shows the target, using downscaled chunks
+ * @param instruction Instruction string for the LLM
+ * @param base64Strings Base64 strings of every snapshot chunk of the page
+ * @param snapshots Snapshot settings
+ * @param encoding Encoding of the downscaled chunks
+ * @returns {Promise<number>} Index of the first chunk of the window to send, so that the window contains the target chunk
+ */
+async function selectSnapshotWindow(instruction: string, base64Strings: string[], snapshots: SnapshotConfig, encoding: ImageEncoding): Promise<number> {
+    const thumbnails = await Promise.all(base64Strings.map(
+        async base64String => encodeImage(await resizeImage(base64String, snapshots.thumbnailWidth), encoding)
+    ));
+    const promptContent = fs.readFileSync(path.join(__dirname, '../../prompts/select_snapshot.md'), 'utf8');
+    const batchSize = Math.max(1, snapshots.maxThumbnails);
+
+    let target = -1;
+    for (let start = 0; start < thumbnails.length && target < 0; start += batchSize) {
+        const batch = thumbnails.slice(start, start + batchSize);
+        Logger.debug(`Searching the target in thumbnails ${start + 1}-${start + batch.length} of ${thumbnails.length}`);
+
+        const prompt = promptContent
+            .replace(`<%=count%>`, batch.length.toString())
+            .replace(`<%=instruction%>`, instruction);
+        logImageCost(batch);
+        const [response] = await LLM.invoke(prompt, batch.map(thumbnail => thumbnail.base64String));
+
+        const selection = extractJSONFromString(response) as { image?: unknown } | null;
+        const image = Number(selection?.image);
+        if (selection?.image !== null && Number.isInteger(image) && image >= 1 && image <= batch.length) {
+            target = start + image - 1;
+        }
+    }
 
-    // Inject and execute the numberElements function
-    await page.evaluate(() => {
-        function numberElements() {
-            // Create and append style element for embedded CSS
-            const style = document.createElement('style');
-            style.innerHTML = `
-                .number-tag {
-                    position: absolute;
-                    background-color: yellow;
-                    border: 1px solid black;
-                    padding: 5px;
-                    font-size: 12px;
-                    z-index: 1000;
-                }
-            `;
-            document.head.appendChild(style);
+    if (target < 0) {
+        Logger.warn('No thumbnail shows the target, sending the top of the page');
+        return 0;
+    }
 
-            // Get all anchor and button tags
-            const elements = document.querySelectorAll('input, textarea');
+    // start one chunk above the target for context, as long as the window stays inside the page
+    const maxImages = Math.max(1, snapshots.maxImages);
+    Logger.debug(`Target found in snapshot chunk ${target + 1}`);
+    return Math.max(0, Math.min(target - 1, base64Strings.length - maxImages));
+}
 
-            // Loop through each element and create the numbered tag
-            elements.forEach((element, index) => {
-                const numberTag = document.createElement('div');
-                numberTag.classList.add('number-tag');
-                numberTag.innerText = (index + 1).toString();
+/**
+ * Parses and validates the LLM response, asking the LLM to repair invalid actions
+ * @param response LLM response for the current page state
+ * @param tagging Whether the response was determined in tagging mode
+ * @param maxRepairs Maximum number of repair round-trips
+ * @returns {Promise<[Action | null, string[], string | null, string]>} Tuple containing [action, validation errors, cache hash of the last response, last response]
+ */
+export async function parseActionWithRepair(response: PageLLMResponse, tagging: boolean, maxRepairs: number): Promise<[Action | null, string[], string | null, string]> {
+    const imageSizes = await Promise.all(response.sentBase64Strings.map(getImageSize));
+    const validationContext = { tagging, imageSizes, elementIds: response.elementIds };
 
-                // Add target class to the element
-                element.classList.add(`number-tag-target-${index + 1}`);
+    let llmResponse = response.llmResponse;
+    let cacheHash = response.cacheHash;
+    let { action, errors } = validateAction(extractJSONFromString(llmResponse), validationContext);
 
-                const rect = element.getBoundingClientRect();
-                numberTag.style.top = `${rect.top + window.scrollY - 0}px`;
-                numberTag.style.left = `${rect.left + window.scrollX - 0}px`;
+    for (let repair = 1; !action && repair <= maxRepairs; repair++) {
+        Logger.warn(`Invalid action (repair ${repair}/${maxRepairs}): ${errors.join('; ')}`);
 
-                document.body.appendChild(numberTag);
-            });
+        // invalid responses must not be replayed from the cache
+        if (cacheHash) {
+            LLM.removeCache(cacheHash);
         }
 
-        // Execute the function
-        numberElements();
-    });
+        // send the validation errors back to the LLM along with the original prompt and images
+        const repairContent = fs.readFileSync(path.join(__dirname, '../../prompts/repair_action.md'), 'utf8');
+        const repairPrompt = response.prompt + repairContent
+            .replace(`<%=response%>`, llmResponse)
+            .replace(`<%=errors%>`, errors.map(error => `- ${error}`).join('\n'));
+
+        [llmResponse, cacheHash] = await LLM.invoke(repairPrompt, response.sentBase64Strings);
+        ({ action, errors } = validateAction(extractJSONFromString(llmResponse), validationContext));
+    }
+
+    return [action, errors, cacheHash, llmResponse];
 }
 
 /**
- * Removes any existing number tags from the page
- * @param page Puppeteer Page object
- * @returns {Promise<void>}
+ * Refinement pass settings
  */
-export async function removeTagging(page: Page): Promise<void> {
-    await page.evaluate(() => {
-        // Remove number tags
-        const existingTags = document.querySelectorAll('.number-tag');
-        existingTags.forEach(tag => tag.remove());
-    });
+interface RefineConfig {
+    enabled: boolean;
+    /** Size of the cropped region, in pixels of the snapshot */
+    cropSize: number;
+    /** Upscaling factor of the cropped region */
+    scale: number;
+    /** Distance between grid lines, in pixels of the zoomed region */
+    gridStep: number;
 }
 
 /**
- * Clear appended target classes from the elements
- * @param page Puppeteer Page object
+ * Sends a zoomed-in crop around the location of the action back to the LLM to confirm or correct it
+ * @param response LLM response for the current page state
+ * @param action Action with a location, its location is updated in place
+ * @param instruction Instruction string for the LLM
+ * @param refine Refinement pass settings
  * @returns {Promise<void>}
  */
-export async function clearAppendedTargetClasses(page: Page): Promise<void> {
-    await page.evaluate(() => {
-        // Remove number-tag-target classes
-        document.querySelectorAll('[class*="number-tag-target-"]').forEach(element => {
-            const classes = element.className.split(' ');
-            element.className = classes.filter(c => !c.startsWith('number-tag-target-')).join(' ');
-        });
-    });
+export async function refineLocation(response: PageLLMResponse, action: ElementAction, instruction: string, refine: RefineConfig): Promise<void> {
+    const snapshot = response.sentBase64Strings[action.target_image! - 1];
+    const size = await getImageSize(snapshot);
+
+    // crop a region centered on the location, shifted to stay inside the snapshot
+    const width = Math.min(refine.cropSize, size.width);
+    const height = Math.min(refine.cropSize, size.height);
+    const region = {
+        left: Math.round(Math.max(0, Math.min(action.location_x! - width / 2, size.width - width))),
+        top: Math.round(Math.max(0, Math.min(action.location_y! - height / 2, size.height - height))),
+        width,
+        height
+    };
+    const point = {
+        x: Math.round((action.location_x! - region.left) * refine.scale),
+        y: Math.round((action.location_y! - region.top) * refine.scale)
+    };
+    const zoomed = await zoomWithGrid(snapshot, region, refine.scale, refine.gridStep, point);
+
+    const prompt = fs.readFileSync(path.join(__dirname, '../../prompts/refine_location.md'), 'utf8')
+        .replace(`<%=instruction%>`, instruction)
+        .replace(`<%=scale%>`, refine.scale.toString())
+        .replace(`<%=gridStep%>`, refine.gridStep.toString())
+        .replace(`<%=width%>`, Math.round(width * refine.scale).toString())
+        .replace(`<%=height%>`, Math.round(height * refine.scale).toString());
+    const [llmResponse, cacheHash] = await LLM.invoke(prompt, [zoomed]);
+
+    const refined = extractJSONFromString(llmResponse) as { location_x?: unknown; location_y?: unknown } | null;
+    const x = Number(refined?.location_x);
+    const y = Number(refined?.location_y);
+    if (!refined || !Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0 || x > width * refine.scale || y > height * refine.scale) {
+        Logger.warn(`Invalid refined location, keeping (${action.location_x}, ${action.location_y}): ${llmResponse}`);
+        if (cacheHash) {
+            LLM.removeCache(cacheHash);
+        }
+        return;
+    }
+
+    // map the point of the zoomed region back to the snapshot
+    const locationX = Math.round(region.left + x / refine.scale);
+    const locationY = Math.round(region.top + y / refine.scale);
+    Logger.debug(`Refined location: (${action.location_x}, ${action.location_y}) -> (${locationX}, ${locationY})`);
+    action.location_x = locationX;
+    action.location_y = locationY;
+}
+
+/**
+ * Executes the action recorded in the lockfile for the script line, without calling the LLM
+ * @param context Script context
+ * @param command The script line, with its placeholders applied
+ * @returns {Promise<boolean>} Whether the action was replayed, false if the LLM is needed
+ */
+export async function replayFromLockfile(context: ScriptContext, command: string): Promise<boolean> {
+    const entry = context.lockfile.get(command);
+    if (!entry) {
+        Logger.debug(`No lockfile entry for: ${command}`);
+        return false;
+    }
+
+    const action = { ...entry.action } as Action;
+    if ('value' in action && typeof action.value === 'string') {
+        // the value may have been typed from {date} or {time}
+        action.value = LLM.applyTemplate(action.value);
+    }
+    if (entry.element) {
+        // the stored selector must still resolve to an element with the same fingerprint
+        const position = await locateFingerprintedElement(context.page, entry.element);
+        if (!position) {
+            Logger.warn(`Lockfile entry no longer matches the page, falling back to the LLM: ${command}`);
+            return false;
+        }
+        Object.assign(action, { location_x: position.x, location_y: position.y });
+    } else if (action.action !== 'navigate') {
+        return false;
+    }
+
+    Logger.log(`_Replaying from lockfile: **${command}**_`);
+    const attempt = context.report.startAttempt();
+    attempt.action = action;
+    attempt.replayed = true;
+
+    const moveOn = await executeAction(context, [], action);
+    context.report.finishAttempt(attempt, moveOn);
+
+    return moveOn;
 }
 
 /**
  * Executes a command with a 1 second delay
- * @param page Puppeteer Page object
+ * @param context Script context
  * @param command Command string to execute
  * @returns {Promise<void>}
  */
-export async function executeCommand(page: Page, command: string): Promise<void> {
+export async function executeCommand(context: ScriptContext, command: string): Promise<void> {
+    // native steps don't need the LLM
+    if (await executeNativeStep(context, command)) {
+        return;
+    }
+
+    // the lockfile is keyed by the script line with its variables applied, {date} and {time} would change the key every run
+    const lockKey = context.lockfile.key(context.variables.resolve(command.replace(/^(tag|locate):/, '').trim()));
+    if (context.lockfile.replaying && await replayFromLockfile(context, lockKey)) {
+        return;
+    }
+
     // save current viewport
-    const retry = config.get<{ enabled: boolean; maxRetries: number; retryDelay: number }>('retry');
+    const retry = config.get<{ enabled: boolean; maxRetries: number; retryDelay: number; maxRepairs: number }>('retry');
+    const refine = config.get<RefineConfig>('refine');
     let currentRetry = 0;
     let maxRetries = retry.enabled ? retry.maxRetries - 1 : 1;
+    // every attempt sees the same {date} and {time}, the lockfile stores them as placeholders
+    const appliedAt = new Date();
 
     while (currentRetry <= maxRetries) {
         // Default useTag to false
@@ -579,23 +924,64 @@ export async function executeCommand(page: Page, command: string): Promise<void>
         }
 
         // apply template
-        realCommand = LLM.applyTemplate(realCommand);
+        realCommand = LLM.applyTemplate(realCommand, context.variables, appliedAt);
 
         Logger.log(`_[Attempt ${currentRetry + 1}/${maxRetries + 1}] Executing command (**${useTag ? 'tagging' : 'locating'}**): **${realCommand}**_`);
 
-        // Get LLM response with current page
-        const [llmResponse, base64Strings, offsetHeights, cacheHash] = await getLLMResponseWithCurrentPage(page, realCommand, useTag);
-        const action = extractJSONFromString(llmResponse);
+        const attempt = context.report.startAttempt();
+        const attemptDir = context.stepDir(attempt.attempt);
 
-        // Log the LLM response
-        Logger.debug(`Action: ${JSON.stringify(action, null, 4)}`);
+        // Get LLM response with current page
+        const llmStartTime = Date.now();
+        const response = await getLLMResponseWithCurrentPage(context.page, realCommand, useTag, attemptDir);
+        const [action, errors, cacheHash, llmResponse] = await parseActionWithRepair(response, useTag, retry.maxRepairs);
+        // only the actions performed on an element need a precise location
+        if (refine.enabled && action && isElementAction(action) && action.action !== 'extract' && !action.target_id
+            && action.target_image !== undefined && action.location_x !== undefined && action.location_y !== undefined) {
+            await refineLocation(response, action, realCommand, refine);
+        }
+        if (action && 'location_x' in action && action.target_image !== undefined && action.location_x !== undefined && action.location_y !== undefined) {
+            // the LLM answered in the pixels of the encoded image, the page expects CSS pixels
+            const scale = response.sentImageScales[action.target_image - 1] || 1;
+            action.location_x = Math.round(action.location_x / scale);
+            action.location_y = Math.round(action.location_y / scale);
+        }
+        if (action?.action === 'drag' && action.to_target_image !== undefined && action.to_location_x !== undefined && action.to_location_y !== undefined) {
+            const scale = response.sentImageScales[action.to_target_image - 1] || 1;
+            action.to_location_x = Math.round(action.to_location_x / scale);
+            action.to_location_y = Math.round(action.to_location_y / scale);
+        }
+        attempt.llmDuration = Date.now() - llmStartTime;
+        attempt.llmResponse = llmResponse;
+        attempt.screenshots = response.sentFilenames;
+        attempt.action = action;
+        attempt.errors = errors;
+
+        context.artifacts.write(attemptDir, 'prompt.md', response.prompt);
+        context.artifacts.write(attemptDir, 'response.txt', llmResponse);
+        context.artifacts.write(attemptDir, 'action.json', JSON.stringify({ action, errors }, null, 4));
+
+        let moveOn = false;
+        if (action) {
+            // Log the LLM response
+            Logger.debug(`Action: ${JSON.stringify(action, null, 4)}`);
+
+            // execute the action, once the page changed since the screenshot, e.g. by a late animation, has settled
+            await waitForStable(context.page);
+            moveOn = await executeAction(context, response.sentOffsetHeights, action, retry.enabled && currentRetry < maxRetries);
+        } else {
+            // the step counts as a failed attempt
+            Logger.error(`Invalid action: ${errors.join('; ')}`);
+            if (!(retry.enabled && currentRetry < maxRetries)) {
+                throw new StepFailedError(`Invalid action: ${errors.join('; ')}`);
+            }
+        }
 
-        // execute the action
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        const moveOn = await executeAction(page, offsetHeights, action, retry.enabled && currentRetry < maxRetries);
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        context.report.finishAttempt(attempt, moveOn);
 
         if (moveOn) {
+            // (re)write the lockfile entry of the line
+            context.lockfile.record(lockKey, action!, appliedAt);
             break;
         }
         else {
@@ -605,8 +991,8 @@ export async function executeCommand(page: Page, command: string): Promise<void>
             }
         }
 
-        // wait for the retry delay
-        await new Promise(resolve => setTimeout(resolve, retry.retryDelay));
+        // wait for the page to settle before retrying, at most for the retry delay
+        await waitForStable(context.page, retry.retryDelay);
 
         currentRetry++;
     }
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import yaml from 'js-yaml';
+import { Logger } from './logger';
+
+/**
+ * Removes the quotes around a value of a script line, if any
+ * @param value The value
+ * @returns {string} The unquoted value
+ */
+export const unquote = (value: string): string => {
+    const trimmed = value.trim();
+    const quoted = trimmed.match(/^(["'])(.*)\1$/s);
+    return quoted ? quoted[2] : trimmed;
+};
+
+/**
+ * Variables and secrets available to the placeholders of a script run
+ */
+export class Variables {
+    private vars: Map<string, string>;
+    private secrets: Map<string, string>;
+
+    constructor(vars: Record<string, unknown> = {}, secrets: Record<string, unknown> = {}) {
+        this.vars = new Map(Object.entries(vars).map(([name, value]) => [name, String(value)]));
+        this.secrets = new Map(Object.entries(secrets).map(([name, value]) => [name, String(value)]));
+
+        // secrets must never show up in the logs
+        this.secrets.forEach(value => Logger.addSecret(value));
+    }
+
+    /**
+     * Loads variables and secrets from a YAML file with `vars` and `secrets` sections
+     * @param filePath Path of the variables file
+     * @returns {Variables} The loaded variables
+     */
+    public static fromFile(filePath: string): Variables {
+        const content = yaml.load(fs.readFileSync(filePath, 'utf8')) as {
+            vars?: Record<string, unknown>;
+            secrets?: Record<string, unknown>;
+        } | null;
+
+        return new Variables(content?.vars || {}, content?.secrets || {});
+    }
+
+    /**
+     * Creates an independent copy, so each script run gets its own scope
+     * @returns {Variables} The copy
+     */
+    public clone(): Variables {
+        return new Variables(Object.fromEntries(this.vars), Object.fromEntries(this.secrets));
+    }
+
+    /**
+     * Defines or overrides a variable
+     * @param name Variable name
+     * @param value Variable value
+     */
+    public set(name: string, value: string): void {
+        this.vars.set(name, value);
+    }
+
+    /**
+     * Replaces the `{env.NAME}` and `{var.name}` placeholders, `{secret.NAME}` placeholders are kept
+     * as is so the secret values are never sent to the LLM
+     * @param text Text containing placeholders
+     * @returns {string} Text with the placeholders replaced
+     */
+    public resolve(text: string): string {
+        return text.replace(/{(env|var)\.([A-Za-z_][\w.-]*)}/g, (placeholder, scope, name) => {
+            const value = scope === 'env' ? process.env[name] : this.vars.get(name);
+            if (value === undefined) {
+                throw new Error(`${scope === 'env' ? 'Environment variable' : 'Variable'} is not defined: ${placeholder}`);
+            }
+            return value;
+        });
+    }
+
+    /**
+     * Replaces the `{secret.NAME}` placeholders with the secret values, from the variables file
+     * or else from the environment variable of the same name
+     * @param text Text containing secret placeholders
+     * @returns {string} Text with the secret values, must not be logged or sent to the LLM
+     */
+    public resolveSecrets(text: string): string {
+        return text.replace(/{secret\.([A-Za-z_][\w.-]*)}/g, (placeholder, name) => {
+            const value = this.secrets.get(name) ?? process.env[name];
+            if (value === undefined) {
+                throw new Error(`Secret is not defined: ${placeholder}`);
+            }
+
+            Logger.addSecret(value);
+            return value;
+        });
+    }
+
+    /**
+     * Exports the variables of the run, secrets are never exported
+     * @returns {Record<string, string>} Variable names and values
+     */
+    public toJSON(): Record<string, string> {
+        return Object.fromEntries(this.vars);
+    }
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import config from 'config';
+import { Page } from 'puppeteer';
+import { Logger } from './logger';
+import { ScriptContext } from './context';
+import { StepFailedError } from './errors';
+import { takeSnapshot, takeSnapshotFullPage } from './utilities';
+
+/**
+ * A region left out of the comparison, either a fixed rectangle or the elements matching a selector
+ */
+export type IgnoreRegion = { x: number; y: number; width: number; height: number } | { selector: string };
+
+/**
+ * Visual regression settings
+ */
+interface VisualConfig {
+    /** Directory of the baseline images */
+    baselinesDir: string;
+    /** Directory the current captures and diff images of failed comparisons are written to */
+    diffDir: string;
+    /** Whether to compare the full page instead of the viewport */
+    fullPage: boolean;
+    /** Maximum share of differing pixels, from 0 to 1 */
+    threshold: number;
+    /** Maximum difference of a color channel, from 0 to 255, for two pixels to be considered equal */
+    pixelThreshold: number;
+    /** Regions ignored in every comparison */
+    ignore: IgnoreRegion[];
+    /** Regions ignored in the comparisons of a given baseline, by baseline name */
+    ignoreByName: Record<string, IgnoreRegion[]>;
+    /** Whether to overwrite the baselines with the current captures, same as --update-baselines */
+    updateBaselines: boolean;
+}
+
+/**
+ * A raw RGB image
+ */
+interface RawImage {
+    data: Buffer;
+    width: number;
+    height: number;
+}
+
+/**
+ * Decodes an image to raw RGB pixels
+ * @param input Image file path or buffer
+ * @returns {Promise<RawImage>} The raw pixels and the image size
+ */
+const toRawImage = async (input: string | Buffer): Promise<RawImage> => {
+    const { data, info } = await sharp(input).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+};
+
+/**
+ * Compares two raw images of the same size pixel by pixel
+ * @param baseline The baseline image
+ * @param actual The current capture
+ * @param ignored Rectangles left out of the comparison
+ * @param pixelThreshold Maximum difference of a color channel for two pixels to be considered equal
+ * @returns {{ ratio: number; diff: Buffer }} Share of the compared pixels that differ and the raw RGB diff image
+ */
+export const compareImages = (
+    baseline: RawImage,
+    actual: RawImage,
+    ignored: { x: number; y: number; width: number; height: number }[],
+    pixelThreshold: number
+): { ratio: number; diff: Buffer } => {
+    // mask of the ignored pixels
+    const mask = new Uint8Array(actual.width * actual.height);
+    for (const rectangle of ignored) {
+        const left = Math.max(0, Math.floor(rectangle.x));
+        const top = Math.max(0, Math.floor(rectangle.y));
+        const right = Math.min(actual.width, Math.ceil(rectangle.x + rectangle.width));
+        const bottom = Math.min(actual.height, Math.ceil(rectangle.y + rectangle.height));
+        for (let y = top; y < bottom; y++) {
+            mask.fill(1, y * actual.width + left, y * actual.width + Math.max(left, right));
+        }
+    }
+
+    // the diff image is the dimmed capture with the differing pixels in red and the ignored ones in blue
+    const diff = Buffer.alloc(actual.data.length);
+    let compared = 0;
+    let differing = 0;
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+        const offset = pixel * 3;
+        if (mask[pixel]) {
+            diff[offset] = 0;
+            diff[offset + 1] = 0;
+            diff[offset + 2] = 160;
+            continue;
+        }
+
+        compared++;
+        const differs = Math.abs(actual.data[offset] - baseline.data[offset]) > pixelThreshold
+            || Math.abs(actual.data[offset + 1] - baseline.data[offset + 1]) > pixelThreshold
+            || Math.abs(actual.data[offset + 2] - baseline.data[offset + 2]) > pixelThreshold;
+        if (differs) {
+            differing++;
+            diff[offset] = 255;
+            diff[offset + 1] = 0;
+            diff[offset + 2] = 0;
+        } else {
+            const gray = Math.round((actual.data[offset] + actual.data[offset + 1] + actual.data[offset + 2]) / 3);
+            diff[offset] = diff[offset + 1] = diff[offset + 2] = 128 + (gray >> 1);
+        }
+    }
+
+    return { ratio: compared === 0 ? 0 : differing / compared, diff };
+};
+
+/**
+ * Turns a baseline name into a file name
+ * @param name Baseline name
+ * @returns {string} File name without extension
+ */
+const toFileName = (name: string): string => name.trim().replace(/[^\w.-]+/g, '-');
+
+/**
+ * Resolves the ignore regions to rectangles in the coordinates of the capture
+ * @param page Puppeteer Page object
+ * @param regions Ignore regions
+ * @param fullPage Whether the capture covers the full page
+ * @returns {Promise<{ x: number; y: number; width: number; height: number }[]>} Rectangles to ignore
+ */
+async function resolveIgnoreRegions(
+    page: Page,
+    regions: IgnoreRegion[],
+    fullPage: boolean
+): Promise<{ x: number; y: number; width: number; height: number }[]> {
+    const rectangles: { x: number; y: number; width: number; height: number }[] = [];
+
+    for (const region of regions) {
+        if (!('selector' in region)) {
+            rectangles.push(region);
+            continue;
+        }
+
+        rectangles.push(...await page.evaluate((selector, fullPage) => {
+            return Array.from(document.querySelectorAll(selector)).map(element => {
+                const rect = element.getBoundingClientRect();
+                return {
+                    x: rect.left + (fullPage ? window.scrollX : 0),
+                    y: rect.top + (fullPage ? window.scrollY : 0),
+                    width: rect.width,
+                    height: rect.height
+                };
+            });
+        }, region.selector, fullPage));
+    }
+
+    return rectangles;
+}
+
+/**
+ * Compares the current page with the baseline of the given name, the baseline is stored on the first
+ * run or when the baselines are updated
+ * @param context Script context
+ * @param name Baseline name
+ * @returns {Promise<void>}
+ * @throws {StepFailedError} If the page differs from the baseline
+ */
+export async function matchScreenshot(context: ScriptContext, name: string): Promise<void> {
+    const visual = config.get<VisualConfig>('visual');
+    const page = context.page;
+
+    // the ignore regions are resolved on the page as it is captured
+    const regions = [...(visual.ignore || []), ...(visual.ignoreByName?.[name] || [])];
+    let ignored: { x: number; y: number; width: number; height: number }[] = [];
+    let capture: string;
+    if (visual.fullPage) {
+        [, , , capture] = await takeSnapshotFullPage(page, context.stepDir(), async () => {
+            ignored = await resolveIgnoreRegions(page, regions, true);
+        });
+    } else {
+        ignored = await resolveIgnoreRegions(page, regions, false);
+        [, capture] = await takeSnapshot(page, context.stepDir());
+    }
+    const captureBuffer = Buffer.from(capture, 'base64');
+
+    const baselinePath = path.join(visual.baselinesDir, `${toFileName(name)}.png`);
+    if (visual.updateBaselines || !fs.existsSync(baselinePath)) {
+        fs.mkdirSync(visual.baselinesDir, { recursive: true });
+        fs.writeFileSync(baselinePath, captureBuffer);
+        Logger.info(`Baseline ${visual.updateBaselines ? 'updated' : 'stored'}: ${baselinePath}`);
+        return;
+    }
+
+    const baseline = await toRawImage(baselinePath);
+    const actual = await toRawImage(captureBuffer);
+    const actualPath = path.join(visual.diffDir, `${toFileName(name)}.actual.png`);
+    if (baseline.width !== actual.width || baseline.height !== actual.height) {
+        fs.mkdirSync(visual.diffDir, { recursive: true });
+        fs.writeFileSync(actualPath, captureBuffer);
+        throw new StepFailedError(
+            `Screenshot "${name}" is ${actual.width}x${actual.height}, its baseline is ${baseline.width}x${baseline.height}, capture written to ${actualPath}`
+        );
+    }
+
+    const { ratio, diff } = compareImages(baseline, actual, ignored, visual.pixelThreshold);
+    const summary = `${(ratio * 100).toFixed(2)}% of pixels differ (threshold ${(visual.threshold * 100).toFixed(2)}%)`;
+    if (ratio <= visual.threshold) {
+        Logger.info(`Screenshot "${name}" matches its baseline: ${summary}`);
+        return;
+    }
+
+    fs.mkdirSync(visual.diffDir, { recursive: true });
+    const diffPath = path.join(visual.diffDir, `${toFileName(name)}.diff.png`);
+    fs.writeFileSync(actualPath, captureBuffer);
+    await sharp(diff, { raw: { width: actual.width, height: actual.height, channels: 3 } }).png().toFile(diffPath);
+
+    throw new StepFailedError(`Screenshot "${name}" differs from its baseline: ${summary}, diff written to ${diffPath}`);
+}
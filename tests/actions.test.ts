@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { ActionValidationContext, validateAction } from '../src/util/actions';
+import { PageLLMResponse, parseActionWithRepair } from '../src/util/utilities';
+import { LLM } from '../src/util/llm';
+
+const LOCATING: ActionValidationContext = { tagging: false, imageSizes: [{ width: 800, height: 600 }], elementIds: [] };
+const TAGGING: ActionValidationContext = { tagging: true, imageSizes: [{ width: 800, height: 600 }], elementIds: ['1', '2'] };
+
+test('a located action inside the snapshot is valid', () => {
+    const { action, errors } = validateAction({ action: 'click', target_image: 1, location_x: 400, location_y: 300 }, LOCATING);
+    assert.deepEqual(errors, []);
+    assert.equal(action?.action, 'click');
+});
+
+test('a location outside the snapshot or a missing snapshot is reported', () => {
+    assert.deepEqual(
+        validateAction({ action: 'click', target_image: 1, location_x: 900, location_y: 300 }, LOCATING).errors,
+        ['location (900, 300) is outside of snapshot 1 (800x600)']
+    );
+    assert.deepEqual(
+        validateAction({ action: 'hover', target_image: 2, location_x: 10, location_y: 10 }, LOCATING).errors,
+        ['`target_image` must be between 1 and 1, got 2']
+    );
+});
+
+test('the tagging mode requires the id of a tagged element', () => {
+    assert.deepEqual(validateAction({ action: 'click', target_id: 3 }, TAGGING).errors, ['`target_id` must be the id of a tagged element, got "3"']);
+    assert.ok(validateAction({ action: 'click', target_image: 1 }, TAGGING).errors.includes('`target_id` is required in tagging mode'));
+
+    // numeric ids are normalized to strings
+    const { action } = validateAction({ action: 'click', target_id: 2 }, TAGGING);
+    assert.deepEqual(action, { action: 'click', target_id: '2' });
+});
+
+test('the values are normalized and checked by action', () => {
+    assert.deepEqual(validateAction({ action: 'type', target_id: '1', value: 42 }, TAGGING).action, { action: 'type', target_id: '1', value: '42' });
+    assert.deepEqual(validateAction({ action: 'expectation', value: 'false' }, LOCATING).action, { action: 'expectation', value: false });
+    assert.deepEqual(validateAction({ action: 'scroll', amount: '300' }, LOCATING).action, { action: 'scroll', amount: 300 });
+    assert.deepEqual(validateAction({ action: 'type', target_id: '1', value: 'a', mode: 'prepend' }, TAGGING).errors, ['`mode` must be `replace` or `append`']);
+    assert.deepEqual(validateAction({ action: 'navigate', value: ' ' }, LOCATING).errors, ['`value` must be the URL to navigate to']);
+    assert.deepEqual(validateAction({ action: 'extract', variable: '1total', value: '42' }, LOCATING).errors, ['`variable` must be the name of the variable to store the value in']);
+});
+
+test('the errors of the drop target name its own fields', () => {
+    const { errors } = validateAction({ action: 'drag', target_id: '1', to_target_id: '9' }, TAGGING);
+    assert.deepEqual(errors, ['`to_target_id` must be the id of a tagged element, got "9"']);
+});
+
+test('anything but a known action is rejected', () => {
+    assert.deepEqual(validateAction(null, LOCATING).errors, ['the response must contain a single JSON object']);
+    assert.deepEqual(validateAction([{ action: 'click' }], LOCATING).errors, ['the response must contain a single JSON object']);
+    assert.match(validateAction({ action: 'tap' }, LOCATING).errors[0], /^`action` must be one of click, type, .*, got "tap"$/);
+});
+
+test('an invalid response is sent back to the LLM with its errors until it is repaired', async (t) => {
+    const snapshot = (await sharp({ create: { width: 800, height: 600, channels: 3, background: '#fff' } }).png().toBuffer()).toString('base64');
+    const response = {
+        llmResponse: '{"action": "click", "target_image": 1, "location_x": 900, "location_y": 300}',
+        prompt: 'Click Next\n',
+        sentBase64Strings: [snapshot],
+        elementIds: [],
+        cacheHash: null
+    } as unknown as PageLLMResponse;
+
+    const prompts: string[] = [];
+    t.mock.method(LLM, 'invoke', async (prompt: string) => {
+        prompts.push(prompt);
+        return ['{"action": "click", "target_image": 1, "location_x": 700, "location_y": 300}', null];
+    });
+
+    const [action, errors] = await parseActionWithRepair(response, false, 2);
+    assert.deepEqual(action, { action: 'click', target_image: 1, location_x: 700, location_y: 300 });
+    assert.deepEqual(errors, []);
+    assert.equal(prompts.length, 1);
+    assert.ok(prompts[0].startsWith('Click Next\n'));
+    assert.ok(prompts[0].includes('- location (900, 300) is outside of snapshot 1 (800x600)'));
+});
+
+test('the repairs stop after the maximum number of round-trips', async (t) => {
+    const snapshot = (await sharp({ create: { width: 800, height: 600, channels: 3, background: '#fff' } }).png().toBuffer()).toString('base64');
+    const response = {
+        llmResponse: 'I cannot find it',
+        prompt: 'Click Next\n',
+        sentBase64Strings: [snapshot],
+        elementIds: [],
+        cacheHash: null
+    } as unknown as PageLLMResponse;
+
+    const invoke = t.mock.method(LLM, 'invoke', async () => ['still no JSON', null]);
+
+    const [action, errors, , llmResponse] = await parseActionWithRepair(response, false, 2);
+    assert.equal(action, null);
+    assert.deepEqual(errors, ['the response must contain a single JSON object']);
+    assert.equal(llmResponse, 'still no JSON');
+    assert.equal(invoke.mock.callCount(), 2);
+});
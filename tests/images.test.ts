@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { hashSimilarity, perceptualHash } from '../src/util/images';
+
+/**
+ * Renders a PNG with a horizontal gradient, dark to light or light to dark
+ */
+const gradient = async (width: number, height: number, reversed: boolean = false): Promise<string> => {
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const level = Math.round(x / (width - 1) * 255);
+            pixels[y * width + x] = reversed ? 255 - level : level;
+        }
+    }
+    return (await sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer()).toString('base64');
+};
+
+test('the hash has one bit per cell of the grid', async () => {
+    const hash = await perceptualHash(await gradient(200, 100), 8);
+    assert.equal(hash.length, 8 * 8 / 4);
+    assert.match(hash, /^[0-9a-f]+$/);
+});
+
+test('each bit tells whether a cell is brighter than its right neighbour', async () => {
+    // brighter to the right, no bit set
+    assert.equal(await perceptualHash(await gradient(170, 160, false), 16), '0'.repeat(64));
+    // darker to the right, every bit set
+    assert.equal(await perceptualHash(await gradient(170, 160, true), 16), 'f'.repeat(64));
+});
+
+test('the hash ignores the size of the image', async () => {
+    assert.equal(await perceptualHash(await gradient(340, 320)), await perceptualHash(await gradient(170, 160)));
+});
+
+test('the similarity is the share of identical bits', () => {
+    assert.equal(hashSimilarity('0000', '0000'), 1);
+    assert.equal(hashSimilarity('0000', 'ffff'), 0);
+    assert.equal(hashSimilarity('00ff', '0000'), 0.5);
+    assert.equal(hashSimilarity('0001', '0000'), 1 - 1 / 16);
+});
+
+test('hashes of different sizes are not similar', () => {
+    assert.equal(hashSimilarity('00', '0000'), 0);
+    assert.equal(hashSimilarity('', ''), 0);
+});
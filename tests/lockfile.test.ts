@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from 'config';
+import { Lockfile } from '../src/util/lockfile';
+import { LLM } from '../src/util/llm';
+
+// the config is frozen on its first read
+config.util.extendDeep(config, { lockfile: { mode: 'record' } });
+
+const ELEMENT = { selector: '#due', xpath: '/html/body/input', tagName: 'input', text: '' };
+
+/**
+ * Creates a lockfile recording next to a script of a temporary directory
+ */
+const recordingLockfile = (): Lockfile => {
+    return new Lockfile(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'webcopilot-')), 'script.txt'));
+};
+
+test('identical lines get their own keys', () => {
+    const lockfile = recordingLockfile();
+    assert.equal(lockfile.key('click Next'), 'click Next');
+    assert.equal(lockfile.key('click Back'), 'click Back');
+    assert.equal(lockfile.key('click Next'), 'click Next #2');
+});
+
+test('the locating fields are left out and the values typed from {date} and {time} are stored as placeholders', () => {
+    const lockfile = recordingLockfile();
+    const appliedAt = new Date(2025, 0, 31, 10, 15, 42);
+    const date = LLM.applyTemplate('{date}', undefined, appliedAt);
+    const time = LLM.applyTemplate('{time}', undefined, appliedAt);
+
+    const key = lockfile.key('type "Due {date} {time}" into the due field');
+    lockfile.captureElement(ELEMENT);
+    lockfile.record(key, {
+        action: 'type', value: `Due ${date} ${time}`, target_id: '3', target_image: 1, location_x: 10, location_y: 20
+    }, appliedAt);
+
+    assert.deepEqual(lockfile.get(key)?.action, { action: 'type', value: 'Due {date} {time}' });
+    assert.deepEqual(lockfile.get(key)?.element, ELEMENT);
+    const written = JSON.parse(fs.readFileSync(lockfile.filePath, 'utf8'));
+    assert.deepEqual(Object.keys(written.entries), [key]);
+});
+
+test('a date typed by a line without placeholders is kept as is', () => {
+    const lockfile = recordingLockfile();
+    const appliedAt = new Date();
+    const date = LLM.applyTemplate('{date}', undefined, appliedAt);
+
+    const key = lockfile.key(`type "${date}" into the due field`);
+    lockfile.captureElement(ELEMENT);
+    lockfile.record(key, { action: 'type', value: date, target_id: '3' }, appliedAt);
+    assert.deepEqual(lockfile.get(key)?.action, { action: 'type', value: date });
+});
+
+test('the actions needing the LLM and the actions without an element are not recorded', () => {
+    const lockfile = recordingLockfile();
+    lockfile.captureElement(ELEMENT);
+    lockfile.record(lockfile.key('extract the total'), { action: 'extract', variable: 'total', value: '42' }, new Date());
+    lockfile.record(lockfile.key('click Next'), { action: 'click', target_id: '1' }, new Date());
+    assert.equal(lockfile.get('extract the total'), undefined);
+    assert.equal(lockfile.get('click Next'), undefined);
+});
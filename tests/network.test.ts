@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import { NetworkCapture } from '../src/util/network';
+import { ScriptContext } from '../src/util/context';
+import { Logger } from '../src/util/logger';
+
+const SECRET = 'p@ss word&"1"';
+
+/**
+ * Sends a request through a fake page and answers it, as Puppeteer would
+ */
+const send = (page: EventEmitter, request: { method: string; url: string; resourceType: string; headers: Record<string, string>; postData?: string }, body: string) => {
+    const response = {
+        status: () => 200,
+        statusText: () => 'OK',
+        headers: () => ({ 'content-type': 'application/json' }),
+        timing: () => null,
+        remoteAddress: () => ({ ip: '127.0.0.1' }),
+        fromCache: () => false,
+        fromServiceWorker: () => false,
+        buffer: async () => Buffer.from(body),
+        request: () => fake
+    } as unknown as HTTPResponse;
+    const fake = {
+        method: () => request.method,
+        url: () => request.url,
+        resourceType: () => request.resourceType,
+        headers: () => request.headers,
+        postData: () => request.postData,
+        response: () => response
+    } as unknown as HTTPRequest;
+
+    page.emit('request', fake);
+    page.emit('response', response);
+    page.emit('requestfinished', fake);
+};
+
+test('the HAR export masks the secrets of a posted form, whatever their encoding', async () => {
+    Logger.addSecret(SECRET);
+    const context = {
+        report: { stepNumber: 1 },
+        requests: { routes: { isMocked: () => false } }
+    } as unknown as ScriptContext;
+    const capture = new NetworkCapture(context);
+    const page = new EventEmitter();
+    capture.attach(page as unknown as Page);
+
+    const form = new URLSearchParams({ user: 'alice', password: SECRET }).toString();
+    send(page, {
+        method: 'POST',
+        url: `https://example.com/login?token=${encodeURIComponent(SECRET)}`,
+        resourceType: 'xhr',
+        headers: { 'content-type': 'application/x-www-form-urlencoded', authorization: `Basic ${SECRET}` },
+        postData: form
+    }, JSON.stringify({ echo: SECRET }));
+    await capture.settle();
+
+    const har = JSON.stringify(capture.toHar(['log in']));
+    for (const variant of [SECRET, encodeURIComponent(SECRET), form.split('password=')[1], JSON.stringify(SECRET).slice(1, -1)]) {
+        assert.ok(!har.includes(variant), `${variant} is in the HAR`);
+    }
+    assert.ok(har.includes('user=alice&password=****'));
+});
+
+test('only the XHR and fetch requests keep their body', () => {
+    const context = {
+        report: { stepNumber: 1 },
+        requests: { routes: { isMocked: () => false } }
+    } as unknown as ScriptContext;
+    const capture = new NetworkCapture(context);
+    const page = new EventEmitter();
+    capture.attach(page as unknown as Page);
+
+    send(page, { method: 'POST', url: 'https://example.com/search', resourceType: 'document', headers: {}, postData: 'q=shoes' }, '<html></html>');
+    assert.equal(capture.entries[0].postData, undefined);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from '../src/util/logger';
+import { Variables } from '../src/util/variables';
+import { ScriptResult, writeReports } from '../src/util/report';
+
+test('the placeholders are resolved, the secrets only when typed', () => {
+    process.env.WEBCOPILOT_TEST_HOST = 'shop.example.com';
+    const variables = new Variables({ user: 'alice' }, { PASSWORD: 'hunter22' });
+
+    assert.equal(variables.resolve('log in as {var.user} on {env.WEBCOPILOT_TEST_HOST}'), 'log in as alice on shop.example.com');
+    assert.equal(variables.resolve('type {secret.PASSWORD}'), 'type {secret.PASSWORD}');
+    assert.equal(variables.resolveSecrets('{secret.PASSWORD}'), 'hunter22');
+    assert.throws(() => variables.resolve('{var.missing}'), /Variable is not defined: {var.missing}/);
+    assert.throws(() => variables.resolveSecrets('{secret.MISSING}'), /Secret is not defined/);
+});
+
+test('a secret from the environment is masked once typed', () => {
+    process.env.WEBCOPILOT_TEST_TOKEN = 'env-token-123';
+    const variables = new Variables();
+    assert.equal(Logger.maskSecrets('token env-token-123'), 'token env-token-123');
+    variables.resolveSecrets('{secret.WEBCOPILOT_TEST_TOKEN}');
+    assert.equal(Logger.maskSecrets('token env-token-123'), 'token ****');
+});
+
+test('the secrets are masked as is, URL-encoded, form-encoded and JSON-escaped', () => {
+    Logger.addSecret('a b&"c"');
+    assert.equal(Logger.maskSecrets('raw a b&"c"'), 'raw ****');
+    assert.equal(Logger.maskSecrets('url a%20b%26%22c%22'), 'url ****');
+    assert.equal(Logger.maskSecrets('form a+b%26%22c%22'), 'form ****');
+    assert.equal(Logger.maskSecrets('json {"p":"a b&\\"c\\""}'), 'json {"p":"****"}');
+});
+
+test('overlapping secrets are fully masked, the longest first', () => {
+    Logger.addSecret('open-sesame');
+    Logger.addSecret('open-sesame-2025');
+    assert.equal(Logger.maskSecrets('key open-sesame-2025'), 'key ****');
+});
+
+test('a secret too short to be masked is left as is', () => {
+    Logger.addSecret('42');
+    assert.equal(Logger.maskSecrets('step 42 of 420'), 'step 42 of 420');
+});
+
+test('the reports mask the secrets', async () => {
+    Logger.addSecret('s3cret-pass');
+    const result: ScriptResult = {
+        scriptPath: 'login.txt',
+        status: 'failed',
+        startTime: Date.now(),
+        duration: 10,
+        error: 'Expected the page not to contain "s3cret-pass"',
+        steps: [{
+            line: 1,
+            command: 'type {secret.PASSWORD} into the password field',
+            status: 'failed',
+            startTime: Date.now(),
+            duration: 10,
+            attempts: [],
+            console: [{ type: 'log', text: 'submitting s3cret-pass', step: 1 }]
+        }],
+        variables: {}
+    };
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webcopilot-'));
+    const written = await writeReports([result], dir, ['json', 'junit', 'html']);
+    for (const file of written) {
+        assert.ok(!fs.readFileSync(file, 'utf8').includes('s3cret-pass'), `the secret is in ${file}`);
+    }
+    assert.equal(result.error, 'Expected the page not to contain "s3cret-pass"');
+    fs.rmSync(dir, { recursive: true, force: true });
+});
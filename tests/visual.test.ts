@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareImages } from '../src/util/visual';
+
+/**
+ * Creates a raw RGB image filled with one gray level
+ */
+const solid = (width: number, height: number, level: number) => ({ data: Buffer.alloc(width * height * 3, level), width, height });
+
+test('identical images don\'t differ', () => {
+    const { ratio, diff } = compareImages(solid(4, 4, 200), solid(4, 4, 200), [], 0);
+    assert.equal(ratio, 0);
+    // the capture is dimmed
+    assert.equal(diff[0], 128 + (200 >> 1));
+});
+
+test('the ratio is the share of differing pixels, marked in red', () => {
+    const actual = solid(4, 4, 200);
+    actual.data.fill(0, 0, 4 * 3);
+
+    const { ratio, diff } = compareImages(solid(4, 4, 200), actual, [], 0);
+    assert.equal(ratio, 4 / 16);
+    assert.deepEqual([...diff.subarray(0, 3)], [255, 0, 0]);
+});
+
+test('a channel difference within the pixel threshold is equal', () => {
+    assert.equal(compareImages(solid(4, 4, 200), solid(4, 4, 210), [], 10).ratio, 0);
+    assert.equal(compareImages(solid(4, 4, 200), solid(4, 4, 211), [], 10).ratio, 1);
+});
+
+test('the ignored pixels are left out of the ratio and marked in blue', () => {
+    const actual = solid(4, 4, 200);
+    actual.data.fill(0, 0, 4 * 3);
+
+    // the first row is ignored, the second row differs
+    actual.data.fill(0, 4 * 3, 5 * 3);
+    const { ratio, diff } = compareImages(solid(4, 4, 200), actual, [{ x: 0, y: 0, width: 4, height: 1 }], 0);
+    assert.equal(ratio, 1 / 12);
+    assert.deepEqual([...diff.subarray(0, 3)], [0, 0, 160]);
+});
+
+test('the ignored regions are rounded outwards and clipped to the image', () => {
+    const baseline = solid(4, 4, 200);
+    baseline.data.fill(0, 2 * 3, 4 * 3);
+
+    // columns 2 and 3 of the first row are ignored, the others differ
+    const { ratio, diff } = compareImages(baseline, solid(4, 4, 0), [{ x: 2.5, y: -3, width: 10, height: 3.2 }], 0);
+    assert.equal(ratio, 1);
+    assert.deepEqual([...diff.subarray(2 * 3, 4 * 3)], [0, 0, 160, 0, 0, 160]);
+    assert.deepEqual([...diff.subarray(4 * 3, 5 * 3)], [255, 0, 0]);
+});
+
+test('a fully ignored image matches', () => {
+    assert.equal(compareImages(solid(2, 2, 0), solid(2, 2, 255), [{ x: 0, y: 0, width: 2, height: 2 }], 0).ratio, 0);
+});